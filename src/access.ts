@@ -0,0 +1,183 @@
+import { MIDIUnsupportedError, WebMIDIBackend } from './backend';
+
+import type { MIDIBackend } from './backend';
+import type { ValueOf } from './utils';
+
+export const AccessStatus = {
+  UNREQUESTED: 'unrequested',
+  ACCEPTED: 'accepted',
+  DENIED: 'denied',
+} as const;
+
+export type AccessStatus = ValueOf<typeof AccessStatus>;
+
+/**
+ * Options for requesting MIDI access
+ */
+export type AccessOptions = {
+  /** Request permission to send and receive system exclusive messages */
+  sysex?: boolean;
+  /** Where MIDI access comes from, defaults to the browser's Web MIDI API */
+  backend?: MIDIBackend;
+};
+
+/**
+ * Receives ports, messages and connection changes from the shared MIDI access
+ */
+export type AccessListener = {
+  onAccess(access: WebMidi.MIDIAccess): void;
+  onMessage(message: WebMidi.MIDIMessageEvent, inputId: string): void;
+  onStateChange(event: WebMidi.MIDIConnectionEvent): void;
+};
+
+/**
+ * The single Web MIDI access shared by every HuMIDI instance on the page.
+ * Access is requested once and every attached listener receives all messages
+ * and connection changes.
+ */
+class SharedAccess {
+  private status: AccessStatus = AccessStatus.UNREQUESTED;
+  private access: WebMidi.MIDIAccess | null = null;
+  private pendingRequest: Promise<WebMidi.MIDIAccess> | null = null;
+  private listeners: Set<AccessListener> = new Set();
+  private backend: MIDIBackend = new WebMIDIBackend();
+  private sysex = false;
+
+  public getStatus(): AccessStatus {
+    return this.status;
+  }
+
+  /**
+   * Check if the backend that access is, or would be, requested from grants permission
+   */
+  public hasPermissions(): Promise<boolean> {
+    return this.backend.hasPermissions();
+  }
+
+  /**
+   * Request MIDI access, reusing the existing access or pending request if it covers the options.
+   * Asking for sysex when it was not granted, or for another backend, requests access again
+   * and hands the new access to every attached listener.
+   * @returns The MIDI access, or null if access was previously denied
+   */
+  public async requestAccess(options: AccessOptions): Promise<WebMidi.MIDIAccess | null> {
+    if (this.pendingRequest) {
+      const access = await this.pendingRequest;
+      if (this.isGranted(options)) {
+        return access;
+      }
+    }
+
+    if (this.status !== AccessStatus.UNREQUESTED && this.isGranted(options)) {
+      return this.access;
+    }
+
+    this.pendingRequest = this.request(options);
+    try {
+      return await this.pendingRequest;
+    } finally {
+      this.pendingRequest = null;
+    }
+  }
+
+  public attach(listener: AccessListener): void {
+    if (this.listeners.has(listener)) return;
+
+    this.listeners.add(listener);
+    if (this.access) {
+      listener.onAccess(this.access);
+    }
+  }
+
+  public detach(listener: AccessListener): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * Return to the unrequested state, so access can be requested again, e.g. from
+   * another backend. The access is kept while any listener is still attached.
+   */
+  public reset(): void {
+    if (this.listeners.size) return;
+
+    this.releaseAccess();
+    this.status = AccessStatus.UNREQUESTED;
+    this.pendingRequest = null;
+    this.backend = new WebMIDIBackend();
+    this.sysex = false;
+  }
+
+  /**
+   * Check if the current access, or the current denial, already answers a request
+   */
+  private isGranted(options: AccessOptions): boolean {
+    return (!options.sysex || this.sysex)
+      && (!options.backend || options.backend === this.backend);
+  }
+
+  private async request(options: AccessOptions): Promise<WebMidi.MIDIAccess> {
+    const backend = options.backend ?? this.backend;
+    // never drop sysex that was granted earlier by the same backend
+    const sysex = !!options.sysex || (backend === this.backend && this.sysex);
+    if (!this.access) {
+      this.backend = backend;
+    }
+
+    let access: WebMidi.MIDIAccess;
+    try {
+      access = await backend.requestAccess({ ...options, sysex });
+    } catch (err) {
+      if (err instanceof MIDIUnsupportedError) {
+        // Not a denial, access can still be requested with another backend
+        throw err;
+      }
+      // a refused upgrade leaves the access granted earlier in place
+      if (!this.access) {
+        this.status = AccessStatus.DENIED;
+        this.sysex = sysex;
+      }
+      throw new Error('MIDI permissions denied');
+    }
+
+    this.releaseAccess();
+    this.status = AccessStatus.ACCEPTED;
+    this.access = access;
+    this.backend = backend;
+    this.sysex = sysex;
+    access.inputs.forEach(input => this.listenToInput(input));
+    access.onstatechange = (event) => this.onStateChange(event);
+    this.listeners.forEach(listener => listener.onAccess(access));
+
+    return access;
+  }
+
+  /**
+   * Stop listening to the current access, before it is replaced or dropped
+   */
+  private releaseAccess() {
+    if (!this.access) return;
+
+    this.access.inputs.forEach(input => {
+      input.onmidimessage = null;
+    });
+    this.access.onstatechange = null;
+    this.access = null;
+  }
+
+  private listenToInput(input: WebMidi.MIDIInput) {
+    const inputId = input.id || 'unknown';
+    input.onmidimessage = (msg) => {
+      this.listeners.forEach(listener => listener.onMessage(msg, inputId));
+    };
+  }
+
+  private onStateChange(event: WebMidi.MIDIConnectionEvent) {
+    if (event.port.type === 'input' && event.port.state === 'connected') {
+      this.listenToInput(event.port as WebMidi.MIDIInput);
+    }
+
+    this.listeners.forEach(listener => listener.onStateChange(event));
+  }
+}
+
+export const sharedAccess = new SharedAccess();
@@ -0,0 +1,103 @@
+import type { AccessOptions } from './access';
+
+/**
+ * Source of MIDI access.
+ * HuMIDI uses the browser's Web MIDI API by default; a different backend can be
+ * passed to `requestAccess`, e.g. a `VirtualMIDIBackend` for tests and demos.
+ */
+export type MIDIBackend = {
+  /**
+   * Request access to MIDI devices.
+   * @throws When access is denied or unavailable
+   */
+  requestAccess(options: AccessOptions): Promise<WebMidi.MIDIAccess>;
+  /** Check if access would be granted without prompting the user */
+  hasPermissions(): Promise<boolean>;
+};
+
+/**
+ * A function requesting MIDI access, with the signature of `navigator.requestMIDIAccess`
+ */
+export type RequestMIDIAccess = (options: WebMidi.MIDIOptions) => Promise<WebMidi.MIDIAccess>;
+
+/**
+ * Thrown when MIDI access is requested where no MIDI implementation is available
+ */
+export class MIDIUnsupportedError extends Error {
+  constructor(message = 'Web MIDI API is not supported in this environment') {
+    super(message);
+    this.name = 'MIDIUnsupportedError';
+  }
+}
+
+/**
+ * Backend using the browser's Web MIDI API
+ */
+export class WebMIDIBackend implements MIDIBackend {
+  public async requestAccess(options: AccessOptions): Promise<WebMidi.MIDIAccess> {
+    if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+      throw new MIDIUnsupportedError();
+    }
+
+    return navigator.requestMIDIAccess(getMIDIOptions(options));
+  }
+
+  /**
+   * Check if MIDI permissions have been granted using the Permissions API
+   */
+  public async hasPermissions(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.permissions) {
+      return false;
+    }
+
+    try {
+      const result = await navigator.permissions.query({ name: "midi" as PermissionName });
+      return result.state === "granted";
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Backend for runtimes without the Web MIDI API, such as Node.js or Electron's main process.
+ * Accepts any object implementing the Web MIDI `MIDIAccess` shape, or a function that
+ * requests one, e.g. from the `jzz` or `web-midi-api` packages.
+ *
+ * @example
+ * ```typescript
+ * import { requestMIDIAccess } from 'web-midi-api';
+ *
+ * await HuMIDI.requestAccess({ backend: new MIDIAccessBackend(requestMIDIAccess) });
+ * ```
+ */
+export class MIDIAccessBackend implements MIDIBackend {
+  private readonly source: WebMidi.MIDIAccess | RequestMIDIAccess;
+  private access: WebMidi.MIDIAccess | null = null;
+
+  constructor(source: WebMidi.MIDIAccess | RequestMIDIAccess) {
+    this.source = source;
+  }
+
+  public async requestAccess(options: AccessOptions): Promise<WebMidi.MIDIAccess> {
+    if (typeof this.source !== 'function') {
+      this.access = this.source;
+      return this.source;
+    }
+
+    this.access = await this.source(getMIDIOptions(options));
+    return this.access;
+  }
+
+  /**
+   * Outside the browser there is no permission prompt, so permission is
+   * granted once an access object is available
+   */
+  public async hasPermissions(): Promise<boolean> {
+    return typeof this.source !== 'function' || this.access !== null;
+  }
+}
+
+function getMIDIOptions(options: AccessOptions): WebMidi.MIDIOptions {
+  return { sysex: !!options.sysex, software: false };
+}
@@ -0,0 +1,136 @@
+/**
+ * MIDI beat clock tracking
+ *
+ * Counts 24 PPQN timing clock messages into beats and derives a tempo estimate.
+ * Tick intervals are kept in a sliding window; intervals that deviate too far from
+ * the window's median are treated as jitter and ignored, and the tempo is derived
+ * from the mean of the remaining intervals.
+ *
+ * ref: https://midi.org/midi-1-0-detailed-specification (Timing Clock, Song Position Pointer)
+**/
+
+/** Timing clock messages per quarter note */
+export const CLOCKS_PER_BEAT = 24;
+/** Timing clock messages per song position unit (a sixteenth note) */
+export const CLOCKS_PER_SONG_POSITION = 6;
+
+const INTERVAL_WINDOW_SIZE = 24;
+const MIN_INTERVALS_FOR_FILTERING = 4;
+const JITTER_TOLERANCE = 0.5;
+const MAX_CONSECUTIVE_REJECTIONS = 6;
+
+/**
+ * Snapshot of the external clock state
+ */
+export type ClockState = {
+  /** True between a start/continue message and a stop message */
+  running: boolean;
+  /** Estimated tempo in beats per minute, or null until enough clock messages arrive */
+  bpm: number | null;
+  /** Song position in sixteenth notes */
+  position: number;
+  /** Song position in quarter note beats */
+  beat: number;
+};
+
+export class MIDIClock {
+  private running = false;
+  private ticks = 0;
+  private lastTickTime: number | null = null;
+  private intervals: number[] = [];
+  private rejectedIntervals = 0;
+  private bpm: number | null = null;
+
+  /**
+   * Register a timing clock message.
+   * @returns The beat number if this clock starts a new beat while running, null otherwise
+   */
+  public tick(timestamp: number): number | null {
+    if (this.lastTickTime !== null) {
+      this.addInterval(timestamp - this.lastTickTime);
+    }
+    this.lastTickTime = timestamp;
+
+    if (!this.running) {
+      return null;
+    }
+
+    const ticks = this.ticks++;
+    return ticks % CLOCKS_PER_BEAT === 0
+      ? ticks / CLOCKS_PER_BEAT
+      : null;
+  }
+
+  public start(): void {
+    this.ticks = 0;
+    this.running = true;
+  }
+
+  public continue(): void {
+    this.running = true;
+  }
+
+  public stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Move the song position pointer.
+   * @param position - Song position in sixteenth notes
+   */
+  public setSongPosition(position: number): void {
+    this.ticks = position * CLOCKS_PER_SONG_POSITION;
+  }
+
+  public getState(): ClockState {
+    return {
+      running: this.running,
+      bpm: this.bpm,
+      position: Math.floor(this.ticks / CLOCKS_PER_SONG_POSITION),
+      beat: Math.floor(this.ticks / CLOCKS_PER_BEAT),
+    };
+  }
+
+  public reset(): void {
+    this.running = false;
+    this.ticks = 0;
+    this.lastTickTime = null;
+    this.intervals = [];
+    this.rejectedIntervals = 0;
+    this.bpm = null;
+  }
+
+  private addInterval(interval: number) {
+    if (interval <= 0) {
+      return;
+    }
+
+    if (this.intervals.length >= MIN_INTERVALS_FOR_FILTERING) {
+      const median = getMedian(this.intervals);
+      if (Math.abs(interval - median) > median * JITTER_TOLERANCE) {
+        // A run of rejected intervals means the tempo actually changed
+        if (++this.rejectedIntervals < MAX_CONSECUTIVE_REJECTIONS) {
+          return;
+        }
+        this.intervals = [];
+      }
+    }
+
+    this.rejectedIntervals = 0;
+    this.intervals.push(interval);
+    if (this.intervals.length > INTERVAL_WINDOW_SIZE) {
+      this.intervals.shift();
+    }
+
+    const meanInterval = this.intervals.reduce((sum, value) => sum + value, 0) / this.intervals.length;
+    this.bpm = 60000 / (meanInterval * CLOCKS_PER_BEAT);
+  }
+}
+
+function getMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
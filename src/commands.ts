@@ -9,8 +9,11 @@ import type { ValueOf } from './utils';
 export const Commands = {
   NOTE_OFF: 'noteoff',
   NOTE_ON: 'noteon',
-  PITCH_BEND: 'pitchbend',
+  POLY_AFTERTOUCH: 'polyaftertouch',
   CONTROL_CHANGE: 'controlchange',
+  PROGRAM_CHANGE: 'programchange',
+  CHANNEL_PRESSURE: 'channelpressure',
+  PITCH_BEND: 'pitchbend',
 } as const;
 
 export type Command = ValueOf<typeof Commands>;
@@ -18,7 +21,10 @@ export type Command = ValueOf<typeof Commands>;
 export const commandIndex: Record<Command, number> = {
   [Commands.NOTE_OFF]: 128,
   [Commands.NOTE_ON]: 144,
+  [Commands.POLY_AFTERTOUCH]: 160,
   [Commands.CONTROL_CHANGE]: 176,
+  [Commands.PROGRAM_CHANGE]: 192,
+  [Commands.CHANNEL_PRESSURE]: 208,
   [Commands.PITCH_BEND]: 224,
 } as const;
 
@@ -55,6 +61,22 @@ export const commandTable: Record<string, Command> = {
   157: Commands.NOTE_ON,
   158: Commands.NOTE_ON,
   159: Commands.NOTE_ON,
+  160: Commands.POLY_AFTERTOUCH,
+  161: Commands.POLY_AFTERTOUCH,
+  162: Commands.POLY_AFTERTOUCH,
+  163: Commands.POLY_AFTERTOUCH,
+  164: Commands.POLY_AFTERTOUCH,
+  165: Commands.POLY_AFTERTOUCH,
+  166: Commands.POLY_AFTERTOUCH,
+  167: Commands.POLY_AFTERTOUCH,
+  168: Commands.POLY_AFTERTOUCH,
+  169: Commands.POLY_AFTERTOUCH,
+  170: Commands.POLY_AFTERTOUCH,
+  171: Commands.POLY_AFTERTOUCH,
+  172: Commands.POLY_AFTERTOUCH,
+  173: Commands.POLY_AFTERTOUCH,
+  174: Commands.POLY_AFTERTOUCH,
+  175: Commands.POLY_AFTERTOUCH,
   176: Commands.CONTROL_CHANGE,
   177: Commands.CONTROL_CHANGE,
   178: Commands.CONTROL_CHANGE,
@@ -71,6 +93,38 @@ export const commandTable: Record<string, Command> = {
   189: Commands.CONTROL_CHANGE,
   190: Commands.CONTROL_CHANGE,
   191: Commands.CONTROL_CHANGE,
+  192: Commands.PROGRAM_CHANGE,
+  193: Commands.PROGRAM_CHANGE,
+  194: Commands.PROGRAM_CHANGE,
+  195: Commands.PROGRAM_CHANGE,
+  196: Commands.PROGRAM_CHANGE,
+  197: Commands.PROGRAM_CHANGE,
+  198: Commands.PROGRAM_CHANGE,
+  199: Commands.PROGRAM_CHANGE,
+  200: Commands.PROGRAM_CHANGE,
+  201: Commands.PROGRAM_CHANGE,
+  202: Commands.PROGRAM_CHANGE,
+  203: Commands.PROGRAM_CHANGE,
+  204: Commands.PROGRAM_CHANGE,
+  205: Commands.PROGRAM_CHANGE,
+  206: Commands.PROGRAM_CHANGE,
+  207: Commands.PROGRAM_CHANGE,
+  208: Commands.CHANNEL_PRESSURE,
+  209: Commands.CHANNEL_PRESSURE,
+  210: Commands.CHANNEL_PRESSURE,
+  211: Commands.CHANNEL_PRESSURE,
+  212: Commands.CHANNEL_PRESSURE,
+  213: Commands.CHANNEL_PRESSURE,
+  214: Commands.CHANNEL_PRESSURE,
+  215: Commands.CHANNEL_PRESSURE,
+  216: Commands.CHANNEL_PRESSURE,
+  217: Commands.CHANNEL_PRESSURE,
+  218: Commands.CHANNEL_PRESSURE,
+  219: Commands.CHANNEL_PRESSURE,
+  220: Commands.CHANNEL_PRESSURE,
+  221: Commands.CHANNEL_PRESSURE,
+  222: Commands.CHANNEL_PRESSURE,
+  223: Commands.CHANNEL_PRESSURE,
   224: Commands.PITCH_BEND,
   225: Commands.PITCH_BEND,
   226: Commands.PITCH_BEND,
@@ -88,3 +142,27 @@ export const commandTable: Record<string, Command> = {
   238: Commands.PITCH_BEND,
   239: Commands.PITCH_BEND,
 } as const;
+
+/**
+ * MIDI system common and real-time message constants
+**/
+
+export const SystemCommands = {
+  SYSEX: 'sysex',
+  SONG_POSITION: 'songposition',
+  CLOCK: 'clock',
+  START: 'start',
+  CONTINUE: 'continue',
+  STOP: 'stop',
+} as const;
+
+export type SystemCommand = ValueOf<typeof SystemCommands>;
+
+export const systemCommandTable: Record<string, SystemCommand> = {
+  240: SystemCommands.SYSEX,
+  242: SystemCommands.SONG_POSITION,
+  248: SystemCommands.CLOCK,
+  250: SystemCommands.START,
+  251: SystemCommands.CONTINUE,
+  252: SystemCommands.STOP,
+} as const;
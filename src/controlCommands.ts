@@ -1,17 +1,211 @@
 import type { ValueOf } from './utils';
 
+/**
+ * MIDI control change (controller number) names
+ *
+ * ref: https://midi.org/midi-1-0-control-change-messages
+**/
+
 export const ControlCommands = {
+  BANK_SELECT: 'bankselect',
+  MODULATION: 'modulation',
+  BREATH: 'breath',
+  FOOT: 'foot',
+  PORTAMENTO_TIME: 'portamentotime',
+  DATA_ENTRY: 'dataentry',
+  VOLUME: 'volume',
+  BALANCE: 'balance',
+  PAN: 'pan',
+  EXPRESSION: 'expression',
+  EFFECT_CONTROL_1: 'effectcontrol1',
+  EFFECT_CONTROL_2: 'effectcontrol2',
+  GENERAL_PURPOSE_1: 'generalpurpose1',
+  GENERAL_PURPOSE_2: 'generalpurpose2',
+  GENERAL_PURPOSE_3: 'generalpurpose3',
+  GENERAL_PURPOSE_4: 'generalpurpose4',
+  BANK_SELECT_LSB: 'bankselectlsb',
+  MODULATION_LSB: 'modulationlsb',
+  BREATH_LSB: 'breathlsb',
+  FOOT_LSB: 'footlsb',
+  PORTAMENTO_TIME_LSB: 'portamentotimelsb',
+  DATA_ENTRY_LSB: 'dataentrylsb',
+  VOLUME_LSB: 'volumelsb',
+  BALANCE_LSB: 'balancelsb',
+  PAN_LSB: 'panlsb',
+  EXPRESSION_LSB: 'expressionlsb',
+  EFFECT_CONTROL_1_LSB: 'effectcontrol1lsb',
+  EFFECT_CONTROL_2_LSB: 'effectcontrol2lsb',
+  GENERAL_PURPOSE_1_LSB: 'generalpurpose1lsb',
+  GENERAL_PURPOSE_2_LSB: 'generalpurpose2lsb',
+  GENERAL_PURPOSE_3_LSB: 'generalpurpose3lsb',
+  GENERAL_PURPOSE_4_LSB: 'generalpurpose4lsb',
   SUSTAIN: 'sustain',
+  PORTAMENTO: 'portamento',
+  SOSTENUTO: 'sostenuto',
+  SOFT_PEDAL: 'softpedal',
+  LEGATO: 'legato',
+  HOLD_2: 'hold2',
+  SOUND_VARIATION: 'soundvariation',
+  TIMBRE: 'timbre',
+  RELEASE_TIME: 'releasetime',
+  ATTACK_TIME: 'attacktime',
+  BRIGHTNESS: 'brightness',
+  DECAY_TIME: 'decaytime',
+  VIBRATO_RATE: 'vibratorate',
+  VIBRATO_DEPTH: 'vibratodepth',
+  VIBRATO_DELAY: 'vibratodelay',
+  SOUND_CONTROLLER_10: 'soundcontroller10',
+  GENERAL_PURPOSE_5: 'generalpurpose5',
+  GENERAL_PURPOSE_6: 'generalpurpose6',
+  GENERAL_PURPOSE_7: 'generalpurpose7',
+  GENERAL_PURPOSE_8: 'generalpurpose8',
+  PORTAMENTO_CONTROL: 'portamentocontrol',
+  HIGH_RESOLUTION_VELOCITY: 'highresolutionvelocity',
+  REVERB: 'reverb',
+  TREMOLO: 'tremolo',
+  CHORUS: 'chorus',
+  DETUNE: 'detune',
+  PHASER: 'phaser',
+  DATA_INCREMENT: 'dataincrement',
+  DATA_DECREMENT: 'datadecrement',
+  NRPN_LSB: 'nrpnlsb',
+  NRPN_MSB: 'nrpnmsb',
+  RPN_LSB: 'rpnlsb',
+  RPN_MSB: 'rpnmsb',
+  ALL_SOUND_OFF: 'allsoundoff',
+  RESET_ALL_CONTROLLERS: 'resetallcontrollers',
+  LOCAL_CONTROL: 'localcontrol',
+  ALL_NOTES_OFF: 'allnotesoff',
+  OMNI_OFF: 'omnioff',
+  OMNI_ON: 'omnion',
+  MONO_ON: 'monoon',
+  POLY_ON: 'polyon',
 } as const;
 
+/**
+ * Named events emitted for commonly used controllers
+ */
 export const ControllerCommands = {
   SUSTAIN_ON: 'sustainon',
   SUSTAIN_OFF: 'sustainoff',
+  SOSTENUTO_ON: 'sostenutoon',
+  SOSTENUTO_OFF: 'sostenutooff',
+  SOFT_PEDAL_ON: 'softpedalon',
+  SOFT_PEDAL_OFF: 'softpedaloff',
+  MODULATION: 'modulation',
+  VOLUME: 'volume',
+  PAN: 'pan',
+  EXPRESSION: 'expression',
+  ALL_SOUND_OFF: 'allsoundoff',
+  RESET_ALL_CONTROLLERS: 'resetallcontrollers',
+  ALL_NOTES_OFF: 'allnotesoff',
 } as const;
 
 
 export type ControlCommand = ValueOf<typeof ControlCommands>;
+export type ControllerCommand = ValueOf<typeof ControllerCommands>;
 
 export const controlCommandTable: Record<string, ControlCommand> = {
+  0: ControlCommands.BANK_SELECT,
+  1: ControlCommands.MODULATION,
+  2: ControlCommands.BREATH,
+  4: ControlCommands.FOOT,
+  5: ControlCommands.PORTAMENTO_TIME,
+  6: ControlCommands.DATA_ENTRY,
+  7: ControlCommands.VOLUME,
+  8: ControlCommands.BALANCE,
+  10: ControlCommands.PAN,
+  11: ControlCommands.EXPRESSION,
+  12: ControlCommands.EFFECT_CONTROL_1,
+  13: ControlCommands.EFFECT_CONTROL_2,
+  16: ControlCommands.GENERAL_PURPOSE_1,
+  17: ControlCommands.GENERAL_PURPOSE_2,
+  18: ControlCommands.GENERAL_PURPOSE_3,
+  19: ControlCommands.GENERAL_PURPOSE_4,
+  32: ControlCommands.BANK_SELECT_LSB,
+  33: ControlCommands.MODULATION_LSB,
+  34: ControlCommands.BREATH_LSB,
+  36: ControlCommands.FOOT_LSB,
+  37: ControlCommands.PORTAMENTO_TIME_LSB,
+  38: ControlCommands.DATA_ENTRY_LSB,
+  39: ControlCommands.VOLUME_LSB,
+  40: ControlCommands.BALANCE_LSB,
+  42: ControlCommands.PAN_LSB,
+  43: ControlCommands.EXPRESSION_LSB,
+  44: ControlCommands.EFFECT_CONTROL_1_LSB,
+  45: ControlCommands.EFFECT_CONTROL_2_LSB,
+  48: ControlCommands.GENERAL_PURPOSE_1_LSB,
+  49: ControlCommands.GENERAL_PURPOSE_2_LSB,
+  50: ControlCommands.GENERAL_PURPOSE_3_LSB,
+  51: ControlCommands.GENERAL_PURPOSE_4_LSB,
   64: ControlCommands.SUSTAIN,
+  65: ControlCommands.PORTAMENTO,
+  66: ControlCommands.SOSTENUTO,
+  67: ControlCommands.SOFT_PEDAL,
+  68: ControlCommands.LEGATO,
+  69: ControlCommands.HOLD_2,
+  70: ControlCommands.SOUND_VARIATION,
+  71: ControlCommands.TIMBRE,
+  72: ControlCommands.RELEASE_TIME,
+  73: ControlCommands.ATTACK_TIME,
+  74: ControlCommands.BRIGHTNESS,
+  75: ControlCommands.DECAY_TIME,
+  76: ControlCommands.VIBRATO_RATE,
+  77: ControlCommands.VIBRATO_DEPTH,
+  78: ControlCommands.VIBRATO_DELAY,
+  79: ControlCommands.SOUND_CONTROLLER_10,
+  80: ControlCommands.GENERAL_PURPOSE_5,
+  81: ControlCommands.GENERAL_PURPOSE_6,
+  82: ControlCommands.GENERAL_PURPOSE_7,
+  83: ControlCommands.GENERAL_PURPOSE_8,
+  84: ControlCommands.PORTAMENTO_CONTROL,
+  88: ControlCommands.HIGH_RESOLUTION_VELOCITY,
+  91: ControlCommands.REVERB,
+  92: ControlCommands.TREMOLO,
+  93: ControlCommands.CHORUS,
+  94: ControlCommands.DETUNE,
+  95: ControlCommands.PHASER,
+  96: ControlCommands.DATA_INCREMENT,
+  97: ControlCommands.DATA_DECREMENT,
+  98: ControlCommands.NRPN_LSB,
+  99: ControlCommands.NRPN_MSB,
+  100: ControlCommands.RPN_LSB,
+  101: ControlCommands.RPN_MSB,
+  120: ControlCommands.ALL_SOUND_OFF,
+  121: ControlCommands.RESET_ALL_CONTROLLERS,
+  122: ControlCommands.LOCAL_CONTROL,
+  123: ControlCommands.ALL_NOTES_OFF,
+  124: ControlCommands.OMNI_OFF,
+  125: ControlCommands.OMNI_ON,
+  126: ControlCommands.MONO_ON,
+  127: ControlCommands.POLY_ON,
+};
+
+/**
+ * Controller number of each named controller
+ */
+export const controlCommandIndex = Object.fromEntries(
+  Object.entries(controlCommandTable).map(([controller, name]) => [name, Number(controller)]),
+) as Record<ControlCommand, number>;
+
+/**
+ * Named value events emitted for continuous controllers
+ */
+export const controllerValueEventTable: Partial<Record<ControlCommand, ControllerCommand>> = {
+  [ControlCommands.MODULATION]: ControllerCommands.MODULATION,
+  [ControlCommands.VOLUME]: ControllerCommands.VOLUME,
+  [ControlCommands.PAN]: ControllerCommands.PAN,
+  [ControlCommands.EXPRESSION]: ControllerCommands.EXPRESSION,
+  [ControlCommands.ALL_SOUND_OFF]: ControllerCommands.ALL_SOUND_OFF,
+  [ControlCommands.RESET_ALL_CONTROLLERS]: ControllerCommands.RESET_ALL_CONTROLLERS,
+  [ControlCommands.ALL_NOTES_OFF]: ControllerCommands.ALL_NOTES_OFF,
+};
+
+/**
+ * On/off events emitted for switch pedals (on when value >= 64)
+ */
+export const pedalEventTable: Partial<Record<ControlCommand, [ControllerCommand, ControllerCommand]>> = {
+  [ControlCommands.SUSTAIN]: [ControllerCommands.SUSTAIN_ON, ControllerCommands.SUSTAIN_OFF],
+  [ControlCommands.SOSTENUTO]: [ControllerCommands.SOSTENUTO_ON, ControllerCommands.SOSTENUTO_OFF],
+  [ControlCommands.SOFT_PEDAL]: [ControllerCommands.SOFT_PEDAL_ON, ControllerCommands.SOFT_PEDAL_OFF],
 };
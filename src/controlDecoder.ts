@@ -0,0 +1,228 @@
+/**
+ * 14-bit control change and RPN/NRPN decoding
+ *
+ * Controllers 0-31 send the MSB of a 14-bit value and controllers 32-63 the
+ * matching LSB. Registered (RPN, CC 101/100) and non-registered (NRPN, CC 99/98)
+ * parameter numbers select a parameter that data entry (CC 6/38) then sets.
+ * Receiving an MSB resets the LSB to 0, so a value is reported when its MSB
+ * arrives and again when a finer LSB follows.
+ *
+ * ref: https://midi.org/midi-1-0-control-change-messages
+ * ref: https://midi.org/midi-1-0-registered-parameter-numbers
+**/
+
+import type { ValueOf } from './utils';
+
+export const RegisteredParameters = {
+  PITCH_BEND_RANGE: 'pitchbendrange',
+  FINE_TUNING: 'finetuning',
+  COARSE_TUNING: 'coarsetuning',
+  TUNING_PROGRAM: 'tuningprogram',
+  TUNING_BANK: 'tuningbank',
+  MODULATION_DEPTH_RANGE: 'modulationdepthrange',
+  MPE_CONFIGURATION: 'mpeconfiguration',
+} as const;
+
+export type RegisteredParameter = ValueOf<typeof RegisteredParameters>;
+
+/**
+ * Pitch bend range in semitones that devices use until told otherwise
+ */
+export const DEFAULT_PITCH_BEND_RANGE = 2;
+
+export const registeredParameterTable: Record<string, RegisteredParameter> = {
+  0: RegisteredParameters.PITCH_BEND_RANGE,
+  1: RegisteredParameters.FINE_TUNING,
+  2: RegisteredParameters.COARSE_TUNING,
+  3: RegisteredParameters.TUNING_PROGRAM,
+  4: RegisteredParameters.TUNING_BANK,
+  5: RegisteredParameters.MODULATION_DEPTH_RANGE,
+  6: RegisteredParameters.MPE_CONFIGURATION,
+};
+
+export const ParameterTypes = {
+  RPN: 'rpn',
+  NRPN: 'nrpn',
+} as const;
+
+export type ParameterType = ValueOf<typeof ParameterTypes>;
+
+/**
+ * A value decoded from one or more control change messages
+ */
+export type DecodedControl =
+  | {
+    type: 'controlchange14';
+    /** Controller number of the MSB (0-31) */
+    controller: number;
+    /** 14-bit value (0-16383) */
+    value: number;
+  }
+  | {
+    type: ParameterType;
+    /** 14-bit parameter number (0-16383) */
+    parameter: number;
+    /** 14-bit value (0-16383) */
+    value: number;
+  };
+
+const DATA_ENTRY_MSB = 6;
+const DATA_ENTRY_LSB = 38;
+const NRPN_LSB = 98;
+const NRPN_MSB = 99;
+const RPN_LSB = 100;
+const RPN_MSB = 101;
+const RESET_ALL_CONTROLLERS = 121;
+const NULL_PARAMETER = 0x3fff;
+
+type ParameterSelection = {
+  type: ParameterType;
+  msb: number;
+  lsb: number;
+};
+
+type ChannelState = {
+  /** Last MSB of each 14-bit controller */
+  controllerMsbs: Map<number, number>;
+  selection: ParameterSelection | null;
+  /** Last value set for each parameter, keyed by type and number */
+  parameterValues: Map<string, number>;
+};
+
+/**
+ * Get a registered parameter value in semitones, for the parameters that are tunings or ranges
+ *
+ * @param parameter - Registered parameter number
+ * @param value - 14-bit parameter value
+ * @returns The value in semitones, or null for other parameters
+ */
+export function getParameterSemitones(parameter: number, value: number): number | null {
+  const msb = value >> 7;
+  const lsb = value & 0x7f;
+  switch (registeredParameterTable[parameter]) {
+    case RegisteredParameters.PITCH_BEND_RANGE:
+      // LSB in cents
+      return msb + lsb / 100;
+    case RegisteredParameters.FINE_TUNING:
+      // -100 to +100 cents around 8192
+      return (value - 8192) / 8192;
+    case RegisteredParameters.COARSE_TUNING:
+      return msb - 64;
+    case RegisteredParameters.MODULATION_DEPTH_RANGE:
+      // LSB in 128ths of a semitone
+      return msb + lsb / 128;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decodes 14-bit controllers and RPN/NRPN parameters from control change messages.
+ * State is kept separately for every channel of every source, so interleaved
+ * messages from several devices don't mix.
+ */
+export class ControlDecoder {
+  private states: Map<string, ChannelState> = new Map();
+
+  /**
+   * Feed a control change message to the decoder
+   *
+   * @param source - ID of the device that sent the message, or null if unknown
+   * @param channel - MIDI channel (0-15)
+   * @param controller - Controller number (0-127)
+   * @param value - Controller value (0-127)
+   * @returns The decoded value, or null if the message completed none
+   */
+  public decode(source: string | null, channel: number, controller: number, value: number): DecodedControl | null {
+    const state = this.getState(source, channel);
+
+    switch (controller) {
+      case RPN_MSB:
+      case NRPN_MSB:
+        this.select(state, controller === RPN_MSB ? ParameterTypes.RPN : ParameterTypes.NRPN, value, 'msb');
+        return null;
+      case RPN_LSB:
+      case NRPN_LSB:
+        this.select(state, controller === RPN_LSB ? ParameterTypes.RPN : ParameterTypes.NRPN, value, 'lsb');
+        return null;
+      case DATA_ENTRY_MSB:
+      case DATA_ENTRY_LSB:
+        return this.enterData(state, controller === DATA_ENTRY_MSB, value);
+      case RESET_ALL_CONTROLLERS:
+        state.selection = null;
+        return null;
+    }
+
+    if (controller < 32) {
+      state.controllerMsbs.set(controller, value);
+      return { type: 'controlchange14', controller, value: value << 7 };
+    }
+
+    if (controller < 64) {
+      const msb = state.controllerMsbs.get(controller - 32);
+      return msb === undefined
+        ? null
+        : { type: 'controlchange14', controller: controller - 32, value: (msb << 7) + value };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the last value set for a parameter
+   *
+   * @returns The 14-bit value, or null if it was never set
+   */
+  public getParameterValue(
+    source: string | null,
+    channel: number,
+    type: ParameterType,
+    parameter: number,
+  ): number | null {
+    return this.states.get(getStateKey(source, channel))?.parameterValues.get(`${type}:${parameter}`) ?? null;
+  }
+
+  public reset(): void {
+    this.states.clear();
+  }
+
+  private select(state: ChannelState, type: ParameterType, value: number, byte: 'msb' | 'lsb') {
+    // switching between RPN and NRPN starts a new selection
+    const selection = state.selection?.type === type
+      ? state.selection
+      : { type, msb: 0, lsb: 0 };
+    selection[byte] = value;
+    state.selection = selection;
+  }
+
+  private enterData(state: ChannelState, isMsb: boolean, data: number): DecodedControl | null {
+    const { selection } = state;
+    if (!selection) return null;
+
+    const parameter = (selection.msb << 7) + selection.lsb;
+    if (parameter === NULL_PARAMETER) return null;
+
+    const key = `${selection.type}:${parameter}`;
+    const previous = state.parameterValues.get(key) ?? 0;
+    const value = isMsb
+      ? data << 7
+      : (previous & 0x3f80) + data;
+    state.parameterValues.set(key, value);
+
+    return { type: selection.type, parameter, value };
+  }
+
+  private getState(source: string | null, channel: number): ChannelState {
+    const key = getStateKey(source, channel);
+    let state = this.states.get(key);
+    if (!state) {
+      state = { controllerMsbs: new Map(), selection: null, parameterValues: new Map() };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+}
+
+function getStateKey(source: string | null, channel: number): string {
+  return `${source ?? ''}:${channel}`;
+}
@@ -0,0 +1,215 @@
+/**
+ * Event streams
+ *
+ * Pull-based access to HuMIDI's push-based events. MIDI devices can't be slowed
+ * down, so events that arrive while the consumer is busy are buffered, and a
+ * full buffer is handled by the stream's overflow policy.
+**/
+
+import type { ValueOf } from './utils';
+
+export const BufferOverflow = {
+  /** Drop the oldest buffered event to make room */
+  DROP_OLDEST: 'dropoldest',
+  /** Drop the incoming event */
+  DROP_NEWEST: 'dropnewest',
+  /** End the stream with an EventBufferOverflowError once the buffered events are read */
+  ERROR: 'error',
+} as const;
+
+export type BufferOverflow = ValueOf<typeof BufferOverflow>;
+
+export type EventBufferOptions = {
+  /** Maximum number of events held while the consumer is busy, defaults to 256 */
+  bufferSize?: number;
+  /** What to do with events that arrive while the buffer is full, defaults to dropping the oldest */
+  overflow?: BufferOverflow;
+  /** Close the stream when the signal aborts */
+  signal?: AbortSignal;
+};
+
+/**
+ * Error ending a stream whose buffer overflowed with the error policy
+ */
+export class EventBufferOverflowError extends Error {
+  constructor(bufferSize: number) {
+    super(`Event buffer overflowed after ${bufferSize} unread events`);
+    this.name = 'EventBufferOverflowError';
+  }
+}
+
+/**
+ * Error rejecting `waitFor` when no matching event arrived in time
+ */
+export class WaitForTimeoutError extends Error {
+  constructor(event: string, timeout: number) {
+    super(`No matching ${event} event within ${timeout}ms`);
+    this.name = 'WaitForTimeoutError';
+  }
+}
+
+const DEFAULT_BUFFER_SIZE = 256;
+
+type PendingRead<T> = {
+  resolve: (result: IteratorResult<T, undefined>) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * A stream of events that can be read with `for await`, or converted to a `ReadableStream`.
+ * The stream subscribes when it is created and unsubscribes when it is closed, when a
+ * `for await` loop over it ends, or when its signal aborts.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of HuMIDI.events({ types: ['noteon'] })) {
+ *   await playFeedback(event.note);
+ *   if (event.note === 21) break;
+ * }
+ * ```
+ */
+export class MIDIEventStream<T> implements AsyncIterable<T> {
+  private readonly buffer: T[] = [];
+  private readonly bufferSize: number;
+  private readonly overflow: BufferOverflow;
+  private readonly signal: AbortSignal | null;
+  private pendingReads: PendingRead<T>[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private error: Error | null = null;
+  private closed = false;
+  private droppedCount = 0;
+  private readonly onAbort = () => this.close();
+
+  /**
+   * @param subscribe - Starts delivering events to the given function, and returns a function that stops it
+   * @param options - Buffering options
+   */
+  constructor(subscribe: (push: (event: T) => void) => () => void, options: EventBufferOptions = {}) {
+    this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    this.overflow = options.overflow ?? BufferOverflow.DROP_OLDEST;
+    this.signal = options.signal ?? null;
+
+    if (this.signal?.aborted) {
+      this.closed = true;
+      return;
+    }
+
+    this.signal?.addEventListener('abort', this.onAbort);
+    this.unsubscribe = subscribe(event => this.push(event));
+  }
+
+  /**
+   * Read the next event, waiting for one to arrive if none are buffered.
+   * Buffered events are still read after the stream is closed.
+   *
+   * @throws {EventBufferOverflowError} When the buffer overflowed with the error policy
+   */
+  public next(): Promise<IteratorResult<T, undefined>> {
+    if (this.buffer.length) {
+      return Promise.resolve({ done: false, value: this.buffer.shift()! });
+    }
+
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    if (this.closed) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pendingReads.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Stop receiving events. Reads waiting for an event finish as done.
+   */
+  public close(): void {
+    if (this.closed) return;
+
+    this.end();
+    this.pendingReads.forEach(read => read.resolve({ done: true, value: undefined }));
+    this.pendingReads = [];
+  }
+
+  public isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Number of events dropped because the buffer was full
+   */
+  public getDroppedCount(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Read the events through a `ReadableStream`. Events are pulled from this stream as
+   * the reader asks for them, so they should not also be read with `for await`.
+   * Cancelling the readable stream closes this stream.
+   */
+  public toReadableStream(): ReadableStream<T> {
+    return new ReadableStream<T>({
+      pull: async controller => {
+        try {
+          const result = await this.next();
+          if (result.done) {
+            controller.close();
+          } else {
+            controller.enqueue(result.value);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel: () => this.close(),
+    }, { highWaterMark: 0 });
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<T, undefined> {
+    return {
+      next: () => this.next(),
+      return: () => {
+        this.close();
+        return Promise.resolve({ done: true, value: undefined });
+      },
+    };
+  }
+
+  private push(event: T) {
+    if (this.closed) return;
+
+    const read = this.pendingReads.shift();
+    if (read) {
+      read.resolve({ done: false, value: event });
+      return;
+    }
+
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(event);
+      return;
+    }
+
+    switch (this.overflow) {
+      case BufferOverflow.DROP_OLDEST:
+        this.droppedCount++;
+        this.buffer.shift();
+        this.buffer.push(event);
+        return;
+      case BufferOverflow.DROP_NEWEST:
+        this.droppedCount++;
+        return;
+      case BufferOverflow.ERROR:
+        this.error = new EventBufferOverflowError(this.bufferSize);
+        this.end();
+    }
+  }
+
+  private end() {
+    this.closed = true;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.signal?.removeEventListener('abort', this.onAbort);
+  }
+}
@@ -1,50 +1,203 @@
+import {
+  AccessStatus,
+  sharedAccess,
+} from './access';
 import {
   Commands,
   commandTable,
   commandIndex,
+  SystemCommands,
+  systemCommandTable,
 } from './commands';
 import {
   ControlCommands,
   controlCommandTable,
   ControllerCommands,
+  controllerValueEventTable,
+  pedalEventTable,
 } from './controlCommands';
-
-import type { Command } from './commands';
+import { MIDIClock } from './clock';
+import { applyMiddleware } from './middleware';
+import { applyVelocityCurve } from './velocity';
+import { findZones } from './zones';
+import {
+  DEFAULT_MANAGER_PITCH_BEND_RANGE,
+  DEFAULT_MEMBER_PITCH_BEND_RANGE,
+  configureMPEZone,
+  createMPEZones,
+  findMPEZone,
+  getManagedZoneType,
+} from './mpe';
+import {
+  ControlDecoder,
+  DEFAULT_PITCH_BEND_RANGE,
+  ParameterTypes,
+  RegisteredParameters,
+  getParameterSemitones,
+  registeredParameterTable,
+} from './controlDecoder';
+import { MIDIEventStream, WaitForTimeoutError } from './eventStream';
+import {
+  createControlChange,
+  createNoteOff,
+  createNoteOn,
+  createPitchBend,
+} from './messages';
+import {
+  createSysEx,
+  parseIdentityReply,
+  parseSysEx,
+} from './sysex';
+
+import type {
+  AccessListener,
+  AccessOptions,
+} from './access';
+import type { Command, SystemCommand } from './commands';
+import type { ClockState } from './clock';
+import type { ControlCommand } from './controlCommands';
+import type { RegisteredParameter } from './controlDecoder';
+import type { IdentityReply, SysExMessage } from './sysex';
+import type { MIDIMessage, Middleware } from './middleware';
+import type { VelocityCurve } from './velocity';
+import type { Zone } from './zones';
+import type { MPEConfiguration, MPEZone, MPEZoneType } from './mpe';
+import type { EventBufferOptions } from './eventStream';
 import type { ValueOf } from './utils';
 
 
 const Event = {
+  MESSAGE: 'message',
   NOTE_ON: Commands.NOTE_ON,
   NOTE_OFF: Commands.NOTE_OFF,
+  NOTE_EXPRESSION: 'noteexpression',
   PITCH_BEND: Commands.PITCH_BEND,
-  SUSTAIN_ON: ControllerCommands.SUSTAIN_ON,
-  SUSTAIN_OFF: ControllerCommands.SUSTAIN_OFF,
+  CONTROL_CHANGE: Commands.CONTROL_CHANGE,
+  CONTROL_CHANGE_14: 'controlchange14',
+  RPN: ParameterTypes.RPN,
+  NRPN: ParameterTypes.NRPN,
+  PROGRAM_CHANGE: Commands.PROGRAM_CHANGE,
+  CHANNEL_PRESSURE: Commands.CHANNEL_PRESSURE,
+  POLY_AFTERTOUCH: Commands.POLY_AFTERTOUCH,
+  SYSEX: SystemCommands.SYSEX,
+  IDENTITY_REPLY: 'identityreply',
+  START: SystemCommands.START,
+  CONTINUE: SystemCommands.CONTINUE,
+  STOP: SystemCommands.STOP,
+  SONG_POSITION: SystemCommands.SONG_POSITION,
+  BEAT: 'beat',
+  ...ControllerCommands,
   INPUT_CONNECTED: 'inputconnected',
   INPUT_DISCONNECTED: 'inputdisconnected',
+  OUTPUT_CONNECTED: 'outputconnected',
+  OUTPUT_DISCONNECTED: 'outputdisconnected',
 } as const;
 
+/**
+ * Metadata included in the payload of every MIDI message event
+ */
+export type MIDIMessageMetadata = {
+  /** Time the message was received, in milliseconds relative to `performance.now()` */
+  timestamp: number;
+  /** MIDI channel (0-15), or -1 for system messages */
+  channel: number;
+  /** Input device that sent the message, or null if it was not sent by a known device */
+  input: MIDIInput | null;
+  /** Raw MIDI message bytes */
+  raw: Uint8Array;
+};
+
 /**
  * Event data for MIDI note on messages
  */
-export type NoteOnEvent = {
+export type NoteOnEvent = MIDIMessageMetadata & {
   /** MIDI note number (0-127) */
   note: number;
   /** Note velocity (0-127) */
   velocity: number;
+  /**
+   * Velocity mapped through the input's velocity curve, or the global curve if the
+   * input has none (1-127). Equal to velocity when no curve is set.
+   */
+  mappedVelocity: number;
+  /** Names of the zones the note falls in */
+  zones: string[];
 };
 
 /**
  * Event data for MIDI note off messages
  */
-export type NoteOffEvent = {
+export type NoteOffEvent = MIDIMessageMetadata & {
+  /** MIDI note number (0-127) */
+  note: number;
+  /**
+   * True when the key was released while the sustain pedal was down and this
+   * note off was deferred until the pedal released
+   */
+  sustained: boolean;
+  /** Names of the zones the note fell in when it was pressed */
+  zones: string[];
+};
+
+/**
+ * Event data for the expression of a note played in MPE mode, emitted when the note
+ * is pressed and whenever pitch bend, timbre (CC 74) or channel pressure on its
+ * member channel, or pitch bend on its zone's manager channel, changes
+ */
+export type NoteExpressionEvent = MIDIMessageMetadata & {
+  /** Identifies the note among the notes played since the instance was reset */
+  noteId: number;
+  /** MIDI note number (0-127) */
+  note: number;
+  /** Bend in semitones, the member channel's bend plus the manager channel's bend */
+  pitchBend: number;
+  /** Timbre (CC 74) normalized to 0.0-1.0, 0.5 until the controller sends one */
+  timbre: number;
+  /** Channel pressure normalized to 0.0-1.0 */
+  pressure: number;
+};
+
+/**
+ * A note that is currently held down
+ */
+export type ActiveNote = {
   /** MIDI note number (0-127) */
   note: number;
+  /** MIDI channel (0-15) */
+  channel: number;
+  /** Note on velocity (1-127) */
+  velocity: number;
+  /** Time the note was pressed, in milliseconds relative to `performance.now()` */
+  timestamp: number;
+  /** ID of the input device that played the note, or null if unknown */
+  deviceId: string | null;
+};
+
+/**
+ * Channel and input a pitch bend range applies to. Leaving both out targets the
+ * default range, used wherever no other range is set.
+ */
+export type PitchBendRangeQuery = {
+  /** MIDI channel (0-15) */
+  channel?: number;
+  /** ID of the input device */
+  inputId?: string;
+};
+
+/**
+ * Options for querying active notes
+ */
+export type ActiveNotesQuery = {
+  /** Only return notes on this MIDI channel (0-15) */
+  channel?: number;
+  /** Only return notes played on this input device */
+  deviceId?: string;
 };
 
 /**
  * Base type for events with a numeric value
  */
-type ValueEvent = {
+type ValueEvent = MIDIMessageMetadata & {
   /** The value associated with the event */
   value: number;
 };
@@ -53,7 +206,12 @@ type ValueEvent = {
  * Event data for MIDI pitch bend messages
  * Value ranges from -1.0 (maximum down) to +1.0 (maximum up), with 0.0 being center
  */
-export type PitchBendEvent = ValueEvent;
+export type PitchBendEvent = ValueEvent & {
+  /** 14-bit pitch bend value (0-16383), with 8192 being center */
+  rawValue: number;
+  /** Bend in semitones, scaled by the pitch bend range of the channel and input */
+  semitones: number;
+};
 
 /**
  * Event data for MIDI sustain pedal messages
@@ -61,6 +219,116 @@ export type PitchBendEvent = ValueEvent;
  */
 export type SustainEvent = ValueEvent;
 
+/**
+ * Event data for named controller messages (modulation, volume, pan, expression,
+ * sostenuto, soft pedal and the channel mode messages)
+ * Value is the raw MIDI value (0-127)
+ */
+export type ControllerEvent = ValueEvent;
+
+/**
+ * Event data for any MIDI control change message
+ */
+export type ControlChangeEvent = ValueEvent & {
+  /** Controller number (0-127) */
+  controller: number;
+  /** Standard name of the controller, or null for undefined controllers */
+  name: ControlCommand | null;
+};
+
+/**
+ * Event data for 14-bit controllers, combined from the MSB (controllers 0-31) and
+ * LSB (controllers 32-63) messages. Emitted when the MSB arrives, with the LSB reset
+ * to 0, and again when the LSB arrives.
+ */
+export type ControlChange14Event = ValueEvent & {
+  /** Controller number of the MSB (0-31); `value` holds the 14-bit value (0-16383) */
+  controller: number;
+  /** Standard name of the MSB controller, or null for undefined controllers */
+  name: ControlCommand | null;
+};
+
+/**
+ * Event data for non-registered parameter (NRPN) changes, emitted on data entry
+ */
+export type NRPNEvent = ValueEvent & {
+  /** 14-bit parameter number (0-16383); `value` holds the 14-bit value (0-16383) */
+  parameter: number;
+};
+
+/**
+ * Event data for registered parameter (RPN) changes, emitted on data entry
+ */
+export type RPNEvent = NRPNEvent & {
+  /** Standard name of the parameter, or null for parameters without one */
+  name: RegisteredParameter | null;
+  /**
+   * The value in semitones for pitch bend range, fine and coarse tuning and
+   * modulation depth range, or null for other parameters
+   */
+  semitones: number | null;
+};
+
+/**
+ * Event data for MIDI program change messages
+ */
+export type ProgramChangeEvent = MIDIMessageMetadata & {
+  /** Program number (0-127) */
+  program: number;
+};
+
+/**
+ * Event data for MIDI channel pressure (channel aftertouch) messages
+ */
+export type ChannelPressureEvent = ValueEvent & {
+  /** Raw pressure value (0-127); `value` holds the same pressure normalized to 0.0-1.0 */
+  pressure: number;
+};
+
+/**
+ * Event data for MIDI polyphonic key pressure (polyphonic aftertouch) messages
+ */
+export type PolyAftertouchEvent = ChannelPressureEvent & {
+  /** MIDI note number (0-127) */
+  note: number;
+};
+
+/**
+ * Event data for MIDI system exclusive messages
+ */
+export type SysExEvent = MIDIMessageMetadata & SysExMessage;
+
+/**
+ * Event data for Universal SysEx Identity Reply messages
+ */
+export type IdentityReplyEvent = MIDIMessageMetadata & IdentityReply;
+
+/**
+ * Event data for MIDI transport messages (start, continue and stop)
+ */
+export type TransportEvent = MIDIMessageMetadata & {
+  /** Song position in sixteenth notes when the message arrived */
+  position: number;
+};
+
+/**
+ * Event data for MIDI song position pointer messages
+ */
+export type SongPositionEvent = TransportEvent & {
+  /** Song position in quarter note beats */
+  beat: number;
+};
+
+/**
+ * Event data emitted on every quarter note while an external clock is running
+ */
+export type BeatEvent = MIDIMessageMetadata & {
+  /** Beat number since the last start or song position message */
+  beat: number;
+  /** Estimated tempo in beats per minute, or null until enough clock messages arrive */
+  bpm: number | null;
+};
+
 /**
  * Information about a MIDI input device
  */
@@ -96,6 +364,7 @@ export type MIDIInputInfo = {
 export class MIDIInput {
   public readonly info: MIDIInputInfo;
   private enabled: boolean = true;
+  private velocityCurve: VelocityCurve | null = null;
 
   constructor(info: MIDIInputInfo) {
     this.info = info;
@@ -125,6 +394,22 @@ export class MIDIInput {
     return this.enabled;
   }
 
+  /**
+   * Set the velocity curve for notes from this device, overriding the global curve.
+   * @param curve - Velocity curve, or null to use the global curve
+   */
+  public setVelocityCurve(curve: VelocityCurve | null): void {
+    this.velocityCurve = curve;
+  }
+
+  /**
+   * Get the velocity curve for notes from this device
+   * @returns The velocity curve, or null if the global curve is used
+   */
+  public getVelocityCurve(): VelocityCurve | null {
+    return this.velocityCurve;
+  }
+
   /**
    * Unique identifier for this MIDI input device
    */
@@ -154,6 +439,145 @@ export class MIDIInput {
   }
 }
 
+/**
+ * Information about a MIDI output device
+ */
+export type MIDIOutputInfo = {
+  /** Unique identifier for the device */
+  id: string;
+  /** Human-readable name of the device */
+  name: string;
+  /** Device manufacturer name */
+  manufacturer: string;
+  /** Current connection state */
+  state: 'connected' | 'disconnected';
+};
+
+/**
+ * Represents a MIDI output device with helpers for sending messages.
+ *
+ * All helpers accept an optional timestamp (in milliseconds, relative to
+ * `performance.now()`) to schedule the message instead of sending it immediately.
+ *
+ * @example
+ * ```typescript
+ * const synth = HuMIDI.getOutputs().find(output => output.name.includes('Synth'));
+ *
+ * // Play middle C on channel 0 and release it half a second later
+ * synth?.noteOn(60, 100);
+ * synth?.noteOff(60, 0, 0, performance.now() + 500);
+ *
+ * // Bend up by half of the configured range
+ * synth?.pitchBend(0.5);
+ * ```
+ */
+export class MIDIOutput {
+  public readonly info: MIDIOutputInfo;
+  private readonly port: WebMidi.MIDIOutput;
+
+  constructor(info: MIDIOutputInfo, port: WebMidi.MIDIOutput) {
+    this.info = info;
+    this.port = port;
+  }
+
+  /**
+   * Send raw MIDI bytes to this device.
+   *
+   * @param data - Complete MIDI message bytes, including the status byte
+   * @param timestamp - Optional time to send the message, relative to `performance.now()`
+   */
+  public send(data: number[] | Uint8Array, timestamp?: number): void {
+    this.port.send(Array.from(data), timestamp);
+  }
+
+  /**
+   * Send a note on message.
+   *
+   * @param note - MIDI note number (0-127)
+   * @param velocity - Note velocity (1-127)
+   * @param channel - MIDI channel (0-15)
+   * @param timestamp - Optional time to send the message, relative to `performance.now()`
+   */
+  public noteOn(note: number, velocity: number, channel = 0, timestamp?: number): void {
+    this.send(createNoteOn(note, velocity, channel), timestamp);
+  }
+
+  /**
+   * Send a note off message.
+   *
+   * @param note - MIDI note number (0-127)
+   * @param velocity - Release velocity (0-127)
+   * @param channel - MIDI channel (0-15)
+   * @param timestamp - Optional time to send the message, relative to `performance.now()`
+   */
+  public noteOff(note: number, velocity = 0, channel = 0, timestamp?: number): void {
+    this.send(createNoteOff(note, velocity, channel), timestamp);
+  }
+
+  /**
+   * Send a pitch bend message.
+   *
+   * @param value - Bend amount from -1.0 (maximum down) to +1.0 (maximum up), with 0.0 being center
+   * @param channel - MIDI channel (0-15)
+   * @param timestamp - Optional time to send the message, relative to `performance.now()`
+   */
+  public pitchBend(value: number, channel = 0, timestamp?: number): void {
+    this.send(createPitchBend(value, channel), timestamp);
+  }
+
+  /**
+   * Send a control change message.
+   *
+   * @param controller - Controller number (0-127)
+   * @param value - Controller value (0-127)
+   * @param channel - MIDI channel (0-15)
+   * @param timestamp - Optional time to send the message, relative to `performance.now()`
+   */
+  public controlChange(controller: number, value: number, channel = 0, timestamp?: number): void {
+    this.send(createControlChange(controller, value, channel), timestamp);
+  }
+
+  /**
+   * Send a system exclusive message.
+   * Requires access to have been requested with `{ sysex: true }`.
+   *
+   * @param manufacturerId - Manufacturer ID bytes (one byte, or three bytes starting with 0x00)
+   * @param data - Device specific payload (7-bit bytes)
+   * @param timestamp - Optional time to send the message, relative to `performance.now()`
+   */
+  public sysex(manufacturerId: number[], data: number[] | Uint8Array, timestamp?: number): void {
+    this.send(createSysEx(manufacturerId, data), timestamp);
+  }
+
+  /**
+   * Unique identifier for this MIDI output device
+   */
+  public get id(): string {
+    return this.info.id;
+  }
+
+  /**
+   * Human-readable name of this MIDI output device
+   */
+  public get name(): string {
+    return this.info.name;
+  }
+
+  /**
+   * Manufacturer name of this MIDI output device
+   */
+  public get manufacturer(): string {
+    return this.info.manufacturer;
+  }
+
+  /**
+   * Current connection state of this MIDI output device
+   */
+  public get state(): 'connected' | 'disconnected' {
+    return this.info.state;
+  }
+}
+
 /**
  * Event data for MIDI input device connection/disconnection
  */
@@ -162,20 +586,180 @@ export type InputEvent = {
   input: MIDIInput;
 };
 
-export const AccessStatus = {
-  UNREQUESTED: 'unrequested',
-  ACCEPTED: 'accepted',
-  DENIED: 'denied',
-} as const;
+/**
+ * Event data for MIDI output device connection/disconnection
+ */
+export type OutputEvent = {
+  /** The MIDI output device that was connected or disconnected */
+  output: MIDIOutput;
+};
+
+export { AccessStatus } from './access';
+export type { AccessOptions } from './access';
 
 type Channel = number;
-type Event = ValueOf<typeof Event>;
 
-export type AccessStatus = ValueOf<typeof AccessStatus>;
+/**
+ * Name of an event that handlers can be registered for
+ */
+export type EventName = ValueOf<typeof Event>;
+
+/**
+ * Payload type of each event
+ */
+export type EventMap = {
+  [Event.MESSAGE]: MIDIMessageMetadata;
+  [Event.NOTE_ON]: NoteOnEvent;
+  [Event.NOTE_OFF]: NoteOffEvent;
+  [Event.NOTE_EXPRESSION]: NoteExpressionEvent;
+  [Event.PITCH_BEND]: PitchBendEvent;
+  [Event.CONTROL_CHANGE]: ControlChangeEvent;
+  [Event.CONTROL_CHANGE_14]: ControlChange14Event;
+  [Event.RPN]: RPNEvent;
+  [Event.NRPN]: NRPNEvent;
+  [Event.PROGRAM_CHANGE]: ProgramChangeEvent;
+  [Event.CHANNEL_PRESSURE]: ChannelPressureEvent;
+  [Event.POLY_AFTERTOUCH]: PolyAftertouchEvent;
+  [Event.SYSEX]: SysExEvent;
+  [Event.IDENTITY_REPLY]: IdentityReplyEvent;
+  [Event.START]: TransportEvent;
+  [Event.CONTINUE]: TransportEvent;
+  [Event.STOP]: TransportEvent;
+  [Event.SONG_POSITION]: SongPositionEvent;
+  [Event.BEAT]: BeatEvent;
+  [Event.SUSTAIN_ON]: SustainEvent;
+  [Event.SUSTAIN_OFF]: SustainEvent;
+  [Event.SOSTENUTO_ON]: ControllerEvent;
+  [Event.SOSTENUTO_OFF]: ControllerEvent;
+  [Event.SOFT_PEDAL_ON]: ControllerEvent;
+  [Event.SOFT_PEDAL_OFF]: ControllerEvent;
+  [Event.MODULATION]: ControllerEvent;
+  [Event.VOLUME]: ControllerEvent;
+  [Event.PAN]: ControllerEvent;
+  [Event.EXPRESSION]: ControllerEvent;
+  [Event.ALL_SOUND_OFF]: ControllerEvent;
+  [Event.RESET_ALL_CONTROLLERS]: ControllerEvent;
+  [Event.ALL_NOTES_OFF]: ControllerEvent;
+  [Event.INPUT_CONNECTED]: InputEvent;
+  [Event.INPUT_DISCONNECTED]: InputEvent;
+  [Event.OUTPUT_CONNECTED]: OutputEvent;
+  [Event.OUTPUT_DISCONNECTED]: OutputEvent;
+};
+
+function getPitchBendRangeKey(channel?: number, inputId?: string): string {
+  return `${inputId ?? '*'}:${channel ?? '*'}`;
+}
+
+/**
+ * Key for state kept per channel of each input, e.g. a sustain pedal
+ */
+function getDeviceChannelKey(channel: number, deviceId: string | null): string {
+  return `${deviceId ?? ''}:${channel}`;
+}
+
+/**
+ * Last expression values received on an MPE channel
+ */
+type ChannelExpression = {
+  /** Bend in semitones */
+  pitchBend: number;
+  timbre: number;
+  pressure: number;
+};
+
+const DEFAULT_CHANNEL_EXPRESSION: ChannelExpression = {
+  pitchBend: 0,
+  timbre: 0.5,
+  pressure: 0,
+};
+
+function getPortInfo(port: WebMidi.MIDIPort): MIDIInputInfo {
+  return {
+    id: port.id || 'unknown',
+    name: port.name || 'Unknown Device',
+    manufacturer: port.manufacturer || 'Unknown',
+    state: port.state as 'connected' | 'disconnected',
+  };
+}
 
 type EventHandler<T = any> = (event: T) => void;
-type MidiMessageHandler = ((channel: number, data1: number, data2: number) => void)
-  | ((channel: number, data: number) => void);
+
+/**
+ * Options for registering an event handler
+ */
+export type EventHandlerOptions = {
+  /** Only handle events on this MIDI channel (0-15) or these channels, defaults to all channels */
+  channel?: number | number[];
+  /** Only handle events from this input device */
+  inputId?: string;
+  /** Only handle events for notes in this range, given as the lowest and highest note (0-127) */
+  noteRange?: [number, number];
+  /**
+   * Only handle note on and note off events of this zone. Notes are reported
+   * transposed by the zone's `transpose`.
+   */
+  zone?: string;
+  /** Remove the handler after it handled one event */
+  once?: boolean;
+  /** Remove the handler when the signal aborts */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options for streaming events with `events()`
+ */
+export type EventStreamOptions<E extends EventName = EventName> = EventBufferOptions & {
+  /** Event types to stream, defaults to `['message']` */
+  types?: E[];
+  /** Only stream events on this MIDI channel (0-15) or these channels, defaults to all channels */
+  channel?: number | number[];
+};
+
+/**
+ * An event read from an event stream, tagged with its event type. Streams of several
+ * event types yield a union that can be narrowed by checking `type`.
+ */
+export type StreamedEvent<E extends EventName = EventName> = {
+  [K in E]: EventMap[K] & { type: K };
+}[E];
+
+/**
+ * Options for `waitFor()`
+ */
+export type WaitForOptions = {
+  /** Reject with a WaitForTimeoutError if no matching event arrives within this many milliseconds */
+  timeout?: number;
+  /** Reject with the signal's reason when it aborts */
+  signal?: AbortSignal;
+};
+
+/**
+ * Check if an event payload passes the filters of a handler's options
+ */
+function matchesOptions(options: EventHandlerOptions, payload: Partial<MIDIMessageMetadata & { note: number }>): boolean {
+  const channels = toChannelList(options.channel);
+  if (!channels.includes(-1) && (payload.channel === undefined || !channels.includes(payload.channel))) {
+    return false;
+  }
+
+  if (options.inputId !== undefined && payload.input?.id !== options.inputId) {
+    return false;
+  }
+
+  if (options.noteRange) {
+    const [low, high] = options.noteRange;
+    return payload.note !== undefined && payload.note >= low && payload.note <= high;
+  }
+
+  return true;
+}
+
+function toChannelList(channel: number | number[] = -1): number[] {
+  return Array.isArray(channel) ? channel : [channel];
+}
+
+type MidiMessageHandler = (metadata: MIDIMessageMetadata, data1: number, data2: number) => void;
+type SystemMessageHandler = (metadata: MIDIMessageMetadata) => void;
 
 
 /**
@@ -229,28 +813,31 @@ type MidiMessageHandler = ((channel: number, data1: number, data2: number) => vo
  *   console.log('Note on any channel:', event.note);
  * });
  * ```
+ * 
+ * @example Isolated Instances
+ * ```typescript
+ * // The static methods operate on a shared default instance.
+ * // Independent widgets can create their own instances instead.
+ * const widget = createHuMIDI();
+ * await widget.requestAccess();
+ * widget.on('noteon', (event) => console.log(event.note));
+ * 
+ * // Only clears this widget's handlers and state
+ * widget.reset();
+ * ```
  */
 export default class HuMIDI {
-  private static eventHandlersByChannel: Map<Channel, Map<Event, Set<EventHandler>>> | null = new Map();
-  private static accessStatus:  AccessStatus = AccessStatus.UNREQUESTED;
-  private static midiAccess: WebMidi.MIDIAccess | null = null;
-  private static enabled: boolean = true;
-  private static activeNotes: Map<Channel, Set<number>> = new Map();
-  private static activeNotesByDevice: Map<string, Map<Channel, Set<number>>> = new Map();
-  
-  private static inputs: Map<string, MIDIInput> = new Map();
-  private static readonly commandHandler: Record<Command, MidiMessageHandler> = {
-    [Commands.NOTE_ON]: HuMIDI.onNoteOn,
-    [Commands.NOTE_OFF]: HuMIDI.onNoteOff,
-    [Commands.PITCH_BEND]: HuMIDI.onPitchBend,
-    [Commands.CONTROL_CHANGE]: HuMIDI.onControlChange,
-  };
+  private static readonly defaultInstance: HuMIDI = new HuMIDI();
 
   /**
    * Request access to MIDI devices from the browser.
    * This must be called before using any other MIDI functionality.
    * 
-   * @throws {Error} When MIDI access is denied by the user or not supported
+   * @param options - Access options, e.g. `{ sysex: true }` to receive system exclusive messages,
+   * or `{ backend }` to use a MIDI backend other than the browser's Web MIDI API
+   * 
+   * @throws {Error} When MIDI access is denied by the user
+   * @throws {MIDIUnsupportedError} When the Web MIDI API is unavailable and no other backend is given
    * 
    * @example
    * ```typescript
@@ -260,98 +847,29 @@ export default class HuMIDI {
    * } catch (error) {
    *   console.error('MIDI access denied:', error.message);
    * }
+   *
+   * // Without hardware, e.g. in tests
+   * const backend = new VirtualMIDIBackend();
+   * const keyboard = backend.createInput({ name: 'Virtual Keyboard' });
+   * await HuMIDI.requestAccess({ backend });
+   * keyboard.noteOn(60, 100);
    * ```
    */
-  static async requestAccess(): Promise<void> {
-    if (HuMIDI.accessStatus !== AccessStatus.UNREQUESTED) {
-      return;
-    }
-
-    try {
-      HuMIDI.midiAccess = await navigator.requestMIDIAccess();
-      HuMIDI.accessStatus = AccessStatus.ACCEPTED;
-      HuMIDI.enabled = true;
-    } catch (err) {
-      HuMIDI.accessStatus = AccessStatus.DENIED;
-      throw new Error('MIDI permissions denied');
-    }
-
-    HuMIDI.setupInputHandlers();
-    HuMIDI.midiAccess.onstatechange = HuMIDI.onStateChange;
+  public static async requestAccess(options: AccessOptions = {}): Promise<void> {
+    return HuMIDI.defaultInstance.requestAccess(options);
   }
 
-  private static setupInputHandlers() {
-    if (!HuMIDI.midiAccess) return;
-    
-    HuMIDI.midiAccess.inputs.forEach(input => {
-      const inputId = input.id || 'unknown';
-      const inputInfo: MIDIInputInfo = {
-        id: inputId,
-        name: input.name || 'Unknown Device',
-        manufacturer: input.manufacturer || 'Unknown',
-        state: input.state as 'connected' | 'disconnected',
-      };
-      
-      let midiInput = HuMIDI.inputs.get(inputId);
-      if (!midiInput) {
-        midiInput = new MIDIInput(inputInfo);
-        HuMIDI.inputs.set(inputId, midiInput);
-      }
-      
-      input.onmidimessage = (msg) => HuMIDI.onMessage(msg, inputId);
-    });
-  }
-
-  private static onStateChange(event: WebMidi.MIDIConnectionEvent) {
-    // Only handle input devices
-    if (event.port.type !== 'input') return;
-
-    const inputInfo: MIDIInputInfo = {
-      id: event.port.id || 'unknown',
-      name: event.port.name || 'Unknown Device',
-      manufacturer: event.port.manufacturer || 'Unknown',
-      state: event.port.state as 'connected' | 'disconnected',
-    };
-
-    if (event.port.state === 'connected') {
-      let midiInput = HuMIDI.inputs.get(inputInfo.id);
-      if (!midiInput) {
-        midiInput = new MIDIInput(inputInfo);
-        HuMIDI.inputs.set(inputInfo.id, midiInput);
-      }
-      
-      HuMIDI.emit<InputEvent>(Event.INPUT_CONNECTED, { input: midiInput });
-      
-      const inputPort = event.port as WebMidi.MIDIInput;
-      inputPort.onmidimessage = (msg) => HuMIDI.onMessage(msg, inputInfo.id);
-      return;
-    }
-    
-    if (event.port.state === 'disconnected') {
-      let midiInput = HuMIDI.inputs.get(inputInfo.id);
-      if (!midiInput) {
-        // Create input object for disconnection event even if not previously tracked
-        midiInput = new MIDIInput(inputInfo);
-        HuMIDI.inputs.set(inputInfo.id, midiInput);
-      }
-      
-      // Send note off for all active notes from this device to prevent stuck notes
-      HuMIDI.handleDeviceDisconnect(inputInfo.id);
-      HuMIDI.emit<InputEvent>(Event.INPUT_DISCONNECTED, { input: midiInput });
-    }
-  }
-
-  /**
-   * Get the current MIDI access status
-   * @returns The current access status
-   */
-  public static getAccessStatus(): AccessStatus {
-    return HuMIDI.accessStatus;
+  /**
+   * Get the current MIDI access status
+   * @returns The current access status
+   */
+  public static getAccessStatus(): AccessStatus {
+    return HuMIDI.defaultInstance.getAccessStatus();
   }
 
   /**
    * Check if MIDI permissions have been granted without requesting access.
-   * This uses the Permissions API to query the current permission state.
+   * With the default Web MIDI backend this uses the Permissions API to query the current permission state.
    * 
    * @returns Promise that resolves to true if MIDI permissions are granted, false otherwise
    * 
@@ -366,16 +884,182 @@ export default class HuMIDI {
    * ```
    */
   public static async hasPermissions(): Promise<boolean> {
-    if (!navigator.permissions) {
-      return false;
-    }
+    return HuMIDI.defaultInstance.hasPermissions();
+  }
 
-    try {
-      const result = await navigator.permissions.query({ name: "midi" as PermissionName });
-      return result.state === "granted";
-    } catch (error) {
-      return false;
-    }
+  /**
+   * Process a MIDI message as if it was received from a device.
+   * Handlers and note tracking react to it exactly like to a played message.
+   * 
+   * @param data - Complete MIDI message bytes, including the status byte
+   * @param timestamp - Time the message was played, defaults to `performance.now()`
+   * 
+   * @example
+   * ```typescript
+   * // Simulate middle C being played
+   * HuMIDI.dispatch([0x90, 60, 100]);
+   * ```
+   */
+  public static dispatch(data: number[] | Uint8Array, timestamp?: number): void {
+    HuMIDI.defaultInstance.dispatch(data, timestamp);
+  }
+
+  /**
+   * Add a stage to the middleware chain that every incoming message passes through
+   * before notes are tracked and events are emitted. A stage returns the message,
+   * a modified copy, several messages to fan out to, or null to drop it.
+   * 
+   * @param middleware - Middleware stage, run after the previously added stages
+   * @returns Function that removes the stage again
+   * 
+   * @example
+   * ```typescript
+   * HuMIDI.use(transpose(-12));
+   * HuMIDI.use(noteRange(21, 108));
+   * 
+   * // Double every note an octave up
+   * const removeOctaves = HuMIDI.use((message) => {
+   *   const [status, note, velocity] = message.raw;
+   *   if ((status & 0xe0) !== 0x80 || note > 115) return message;
+   *   return [message, { ...message, raw: new Uint8Array([status, note + 12, velocity]) }];
+   * });
+   * ```
+   */
+  public static use(middleware: Middleware): () => void {
+    return HuMIDI.defaultInstance.use(middleware);
+  }
+
+  /**
+   * Set the velocity curve applied to notes from every input without a curve of its own.
+   * The mapped velocity is reported as `mappedVelocity` in note on events.
+   * 
+   * @param curve - Velocity curve, or null to leave velocities unchanged
+   * 
+   * @example
+   * ```typescript
+   * // Make soft playing louder
+   * HuMIDI.setVelocityCurve({ type: 'logarithmic' });
+   * 
+   * // Override the curve for one keyboard
+   * HuMIDI.getInputs()[0].setVelocityCurve({ type: 'linear', min: 20, max: 110 });
+   * ```
+   */
+  public static setVelocityCurve(curve: VelocityCurve | null): void {
+    HuMIDI.defaultInstance.setVelocityCurve(curve);
+  }
+
+  /**
+   * Get the global velocity curve
+   * @returns The velocity curve, or null if velocities are left unchanged
+   */
+  public static getVelocityCurve(): VelocityCurve | null {
+    return HuMIDI.defaultInstance.getVelocityCurve();
+  }
+
+  /**
+   * Define keyboard zones. Note on and note off events are tagged with the names of
+   * the zones their note falls in, and handlers can subscribe to a single zone.
+   * A note off is always routed to the zones its note on fell in, so changing zones
+   * while keys are held never leaves a zone with a hanging note.
+   * 
+   * @param zones - Zone definitions, replacing any previous zones
+   * 
+   * @example
+   * ```typescript
+   * HuMIDI.setZones([
+   *   { name: 'left', high: 59 },
+   *   { name: 'right', low: 60 },
+   *   // layer a bass an octave down under the left hand
+   *   { name: 'bass', high: 59, transpose: -12 },
+   * ]);
+   * 
+   * HuMIDI.on('noteon', (event) => highlightLeftHand(event.note), { zone: 'left' });
+   * HuMIDI.on('noteoff', (event) => releaseLeftHand(event.note), { zone: 'left' });
+   * ```
+   */
+  public static setZones(zones: Zone[]): void {
+    HuMIDI.defaultInstance.setZones(zones);
+  }
+
+  /**
+   * Get the zone definitions
+   */
+  public static getZones(): Zone[] {
+    return HuMIDI.defaultInstance.getZones();
+  }
+
+  /**
+   * Set the pitch bend range used to report pitch bends in semitones.
+   * Ranges are also updated automatically when a device sends a pitch bend
+   * range RPN (RPN 0) message.
+   * 
+   * @param semitones - Bend range in each direction, defaults to 2
+   * @param query - Channel and/or input the range applies to, or neither to set the default range
+   * 
+   * @example
+   * ```typescript
+   * // Most synths bend a whole octave
+   * HuMIDI.setPitchBendRange(12, { inputId: synth.id });
+   * 
+   * HuMIDI.on('pitchbend', ({ semitones }) => voice.detune(semitones * 100));
+   * ```
+   */
+  public static setPitchBendRange(semitones: number, query: PitchBendRangeQuery = {}): void {
+    HuMIDI.defaultInstance.setPitchBendRange(semitones, query);
+  }
+
+  /**
+   * Get the pitch bend range for a channel and input. A range set for both the input
+   * and the channel is preferred over one set for the input, then the channel, then
+   * the default range.
+   * 
+   * @param query - Channel and/or input to get the range for
+   * @returns Bend range in semitones in each direction
+   */
+  public static getPitchBendRange(query: PitchBendRangeQuery = {}): number {
+    return HuMIDI.defaultInstance.getPitchBendRange(query);
+  }
+
+  /**
+   * Turn MPE (MIDI Polyphonic Expression) mode on or off. In MPE mode, pitch bend,
+   * timbre (CC 74) and channel pressure on a member channel shape the note held on
+   * that channel, and are reported per note as `noteexpression` events.
+   * Zones are reconfigured whenever a controller sends an MPE Configuration Message
+   * (RPN 6) on a manager channel, and pitch bend ranges default to 48 semitones on
+   * member channels and 2 semitones on manager channels.
+   * 
+   * @param configuration - Member channel counts of the lower and upper zones, `{}` to
+   *   wait for the controller to configure its zones, or null to turn MPE mode off
+   * 
+   * @example
+   * ```typescript
+   * // Most MPE controllers play in a lower zone with 15 member channels
+   * HuMIDI.setMPEMode({ lower: 15 });
+   * 
+   * HuMIDI.on('noteon', ({ note, velocity }) => synth.start(note, velocity));
+   * HuMIDI.on('noteexpression', ({ noteId, note, pitchBend, timbre, pressure }) => {
+   *   synth.shape(noteId, note + pitchBend, timbre, pressure);
+   * });
+   * ```
+   */
+  public static setMPEMode(configuration: MPEConfiguration | null): void {
+    HuMIDI.defaultInstance.setMPEMode(configuration);
+  }
+
+  /**
+   * Check whether MPE mode is on
+   */
+  public static isMPEEnabled(): boolean {
+    return HuMIDI.defaultInstance.isMPEEnabled();
+  }
+
+  /**
+   * Get the MPE zones, as configured or as last sent by a controller
+   * 
+   * @returns The enabled zones, lower zone first, or an empty array when MPE mode is off
+   */
+  public static getMPEZones(): MPEZone[] {
+    return HuMIDI.defaultInstance.getMPEZones();
   }
 
   /**
@@ -394,7 +1078,7 @@ export default class HuMIDI {
    * ```
    */
   public static setEnabled(enabled: boolean): void {
-    HuMIDI.enabled = enabled;
+    HuMIDI.defaultInstance.setEnabled(enabled);
   }
 
   /**
@@ -402,7 +1086,7 @@ export default class HuMIDI {
    * @returns True if MIDI processing is enabled, false otherwise
    */
   public static isEnabled(): boolean {
-    return HuMIDI.enabled;
+    return HuMIDI.defaultInstance.isEnabled();
   }
 
   /**
@@ -420,84 +1104,139 @@ export default class HuMIDI {
    * ```
    */
   public static getInputs(): MIDIInput[] {
-    return Array.from(HuMIDI.inputs.values());
+    return HuMIDI.defaultInstance.getInputs();
   }
 
-  private static trackNoteOn(channel: number, note: number, deviceId?: string) {
-    // Track globally (for backward compatibility)
-    if (!HuMIDI.activeNotes.has(channel)) {
-      HuMIDI.activeNotes.set(channel, new Set());
-    }
-    HuMIDI.activeNotes.get(channel)!.add(note);
-    
-    // Track per device
-    if (deviceId) {
-      if (!HuMIDI.activeNotesByDevice.has(deviceId)) {
-        HuMIDI.activeNotesByDevice.set(deviceId, new Map());
-      }
-      const deviceNotes = HuMIDI.activeNotesByDevice.get(deviceId)!;
-      if (!deviceNotes.has(channel)) {
-        deviceNotes.set(channel, new Set());
-      }
-      deviceNotes.get(channel)!.add(note);
-    }
+  /**
+   * Get all available MIDI output devices
+   * 
+   * @returns Array of MIDIOutput objects representing connected output devices
+   * 
+   * @example
+   * ```typescript
+   * const outputs = HuMIDI.getOutputs();
+   * outputs.forEach(output => output.noteOn(60, 100));
+   * ```
+   */
+  public static getOutputs(): MIDIOutput[] {
+    return HuMIDI.defaultInstance.getOutputs();
   }
 
-  private static trackNoteOff(channel: number, note: number, deviceId?: string) {
-    // Track globally (for backward compatibility)
-    const channelNotes = HuMIDI.activeNotes.get(channel);
-    if (channelNotes) {
-      channelNotes.delete(note);
-      if (channelNotes.size === 0) {
-        HuMIDI.activeNotes.delete(channel);
-      }
-    }
-    
-    // Track per device
-    if (deviceId) {
-      const deviceNotes = HuMIDI.activeNotesByDevice.get(deviceId);
-      if (deviceNotes) {
-        const deviceChannelNotes = deviceNotes.get(channel);
-        if (deviceChannelNotes) {
-          deviceChannelNotes.delete(note);
-          if (deviceChannelNotes.size === 0) {
-            deviceNotes.delete(channel);
-          }
-        }
-        if (deviceNotes.size === 0) {
-          HuMIDI.activeNotesByDevice.delete(deviceId);
-        }
-      }
-    }
+  /**
+   * Get the state of the external MIDI clock, including the estimated tempo.
+   * The tempo is derived from incoming timing clock messages (24 per quarter note).
+   *
+   * @returns Snapshot of the clock state
+   *
+   * @example
+   * ```typescript
+   * HuMIDI.on('beat', () => {
+   *   const { bpm } = HuMIDI.getClockState();
+   *   console.log(`Tempo: ${bpm?.toFixed(1)} BPM`);
+   * });
+   * ```
+   */
+  public static getClockState(): ClockState {
+    return HuMIDI.defaultInstance.getClockState();
   }
 
-  private static handleDeviceDisconnect(deviceId: string) {
-    const deviceNotes = HuMIDI.activeNotesByDevice.get(deviceId);
-    if (!deviceNotes) return;
+  /**
+   * Get the notes currently sounding on a channel: keys that are held down plus
+   * keys that were released while the sustain pedal is down.
+   *
+   * @param channel - MIDI channel to query (-1 for all channels)
+   * @returns Sorted array of MIDI note numbers
+   *
+   * @example
+   * ```typescript
+   * HuMIDI.on('noteoff', () => {
+   *   keyboard.render(HuMIDI.getSoundingNotes(0));
+   * });
+   * ```
+   */
+  public static getSoundingNotes(channel = -1): number[] {
+    return HuMIDI.defaultInstance.getSoundingNotes(channel);
+  }
 
-    // Send note off events for all active notes from this device
-    deviceNotes.forEach((notes, channel) => {
-      notes.forEach(note => {
-        HuMIDI.emit<NoteOffEvent>(
-          Event.NOTE_OFF,
-          { note },
-          channel,
-        );
-      });
-    });
+  /**
+   * Check whether the sustain pedal is currently down on a channel. Every input has its
+   * own pedal, which only holds the notes played on that input.
+   *
+   * @param channel - MIDI channel (0-15)
+   * @param deviceId - Only check the pedal of this input device
+   * @returns True if the sustain pedal is down, false otherwise
+   */
+  public static isSustainOn(channel: number, deviceId?: string): boolean {
+    return HuMIDI.defaultInstance.isSustainOn(channel, deviceId);
+  }
+
+  /**
+   * Get the notes that are currently held down, with their velocities and start times.
+   * 
+   * @param query - Optional channel and device filters
+   * @returns Active notes, ordered by the time they were pressed
+   * 
+   * @example
+   * ```typescript
+   * // Render the current keyboard state on mount
+   * HuMIDI.getActiveNotes().forEach(({ note, velocity }) => {
+   *   keyboard.press(note, velocity);
+   * });
+   * 
+   * // Only notes played on channel 0 of a specific device
+   * HuMIDI.getActiveNotes({ channel: 0, deviceId: piano.id });
+   * ```
+   */
+  public static getActiveNotes(query: ActiveNotesQuery = {}): ActiveNote[] {
+    return HuMIDI.defaultInstance.getActiveNotes(query);
+  }
+
+  /**
+   * Check whether a note is currently held down
+   * 
+   * @param note - MIDI note number (0-127)
+   * @param channel - MIDI channel to check (-1 for any channel)
+   * @returns True if the note is held down, false otherwise
+   */
+  public static isNoteActive(note: number, channel = -1): boolean {
+    return HuMIDI.defaultInstance.isNoteActive(note, channel);
+  }
 
-    // Clear the device's note tracking
-    HuMIDI.activeNotesByDevice.delete(deviceId);
+  /**
+   * Release every tracked note by emitting a note off for it, and clear the note tracking.
+   * Incoming all-sound-off (CC 120) messages trigger this automatically for their channel
+   * and input. All-notes-off (CC 123) messages release the held keys the same way, but
+   * leave notes held by the sustain pedal until the pedal is released.
+   * 
+   * @param query - Optionally limit the release to a channel and/or input device.
+   *   Notes held by the sustain pedal are released as well.
+   * 
+   * @example
+   * ```typescript
+   * // Release everything
+   * HuMIDI.panic();
+   * 
+   * // Release notes on channel 0 only
+   * HuMIDI.panic({ channel: 0 });
+   * 
+   * // Release notes played on a specific device
+   * HuMIDI.panic({ deviceId: piano.id });
+   * ```
+   */
+  public static panic(query: ActiveNotesQuery = {}): void {
+    HuMIDI.defaultInstance.panic(query);
   }
 
   /**
-   * Reset the HuMIDI library to its initial state.
-   * This clears all event handlers, resets access status, and clears device tracking.
+   * Reset the default instance to its initial state.
+   * This clears its event handlers and device tracking, and detaches it from the shared
+   * MIDI access. Instances created with `createHuMIDI` are unaffected and keep receiving
+   * messages; once no instance is attached, the access status is reset as well.
    * Useful for testing or when you need to reinitialize the library.
    * 
    * @example
    * ```typescript
-   * // Reset everything
+   * // Reset the default instance
    * HuMIDI.reset();
    * 
    * // Now you can request access again
@@ -505,13 +1244,8 @@ export default class HuMIDI {
    * ```
    */
   public static reset(): void {
-    this.eventHandlersByChannel = null;
-    this.accessStatus = AccessStatus.UNREQUESTED;
-    this.midiAccess = null;
-    this.enabled = true;
-    this.activeNotes.clear();
-    this.activeNotesByDevice.clear();
-    this.inputs.clear();
+    HuMIDI.defaultInstance.reset();
+    sharedAccess.reset();
   }
 
   /**
@@ -519,7 +1253,9 @@ export default class HuMIDI {
    * 
    * @param event - The MIDI event type to listen for
    * @param handler - Function to call when the event occurs
-   * @param channel - MIDI channel to listen on (-1 for all channels, 0-15 for specific channels)
+   * @param channel - MIDI channel to listen on (-1 for all channels, 0-15 for specific channels),
+   * or options filtering the events the handler is called for
+   * @returns Function that removes the handler again
    * 
    * @example
    * ```typescript
@@ -537,24 +1273,30 @@ export default class HuMIDI {
    * HuMIDI.on('inputconnected', (event) => {
    *   console.log(`New device: ${event.input.name}`);
    * });
+   * 
+   * // Listen for every incoming message
+   * HuMIDI.on('message', (event) => {
+   *   console.log(event.raw);
+   * });
+   * 
+   * // Listen for notes in the left hand zone
+   * HuMIDI.on('noteon', (event) => {
+   *   console.log(`Left hand: ${event.note}`);
+   * }, { zone: 'left' });
+   * 
+   * // Listen for the next middle C played on a specific device
+   * HuMIDI.on('noteon', startLesson, { inputId: piano.id, noteRange: [60, 60], once: true });
+   * 
+   * // Remove the handler when a component unmounts
+   * useEffect(() => HuMIDI.on('noteon', highlightKey, { channel: [0, 1] }), []);
    * ```
    */
-  public static on<T = any>(event: Event, handler: EventHandler<T>, channel = -1): void {
-    if (!HuMIDI.eventHandlersByChannel) {
-      HuMIDI.eventHandlersByChannel = new Map();
-    }
-
-    if (!HuMIDI.eventHandlersByChannel.get(channel)) {
-      HuMIDI.eventHandlersByChannel.set(channel, new Map());
-    }
-
-    const channelHandlers = HuMIDI.eventHandlersByChannel.get(channel);
-    if (!channelHandlers!.get(event)) {
-      channelHandlers!.set(event, new Set());
-    }
-
-    const eventHandlers = channelHandlers!.get(event)!;
-    eventHandlers.add(handler);
+  public static on<E extends EventName>(
+    event: E,
+    handler: EventHandler<EventMap[E]>,
+    channel: number | EventHandlerOptions = -1,
+  ): () => void {
+    return HuMIDI.defaultInstance.on(event, handler, channel);
   }
 
   /**
@@ -562,7 +1304,8 @@ export default class HuMIDI {
    * 
    * @param event - The MIDI event type
    * @param handler - The handler function to remove
-   * @param channel - MIDI channel the handler was registered for (-1 for all channels)
+   * @param channel - Only remove the handler from this MIDI channel (-1 for all channels),
+   * or from the channels or zone in these options. Removed from everywhere when omitted.
    * 
    * @example
    * ```typescript
@@ -575,8 +1318,67 @@ export default class HuMIDI {
    * HuMIDI.off('noteon', noteHandler);
    * ```
    */
-  public static off(event: Event, handler: EventHandler, channel = -1): void {
-    HuMIDI.getEventHandlers(event, channel)?.delete(handler);
+  public static off<E extends EventName>(
+    event: E,
+    handler: EventHandler<EventMap[E]>,
+    channel?: number | EventHandlerOptions,
+  ): void {
+    HuMIDI.defaultInstance.off(event, handler, channel);
+  }
+
+  /**
+   * Stream events as an async iterable, or as a `ReadableStream` through `toReadableStream()`.
+   * Events that arrive while the consumer is busy are buffered, and the overflow policy
+   * decides what happens when the buffer is full.
+   * 
+   * @param options - Event types and channels to stream, and buffering options
+   * @returns Stream of events, each tagged with its event type
+   * 
+   * @example
+   * ```typescript
+   * // Handle notes one at a time
+   * for await (const event of HuMIDI.events({ types: ['noteon', 'noteoff'] })) {
+   *   if (event.type === 'noteon') {
+   *     await animateKey(event.note);
+   *   }
+   * }
+   * 
+   * // Pipe events into a stream, failing if the consumer falls 32 events behind
+   * const stream = HuMIDI.events({ types: ['noteon'], bufferSize: 32, overflow: 'error' });
+   * await stream.toReadableStream().pipeTo(writable);
+   * ```
+   */
+  public static events<E extends EventName = typeof Event.MESSAGE>(
+    options: EventStreamOptions<E> = {},
+  ): MIDIEventStream<StreamedEvent<E>> {
+    return HuMIDI.defaultInstance.events<E>(options);
+  }
+
+  /**
+   * Wait for the next event matching a predicate
+   * 
+   * @param event - The MIDI event type to wait for
+   * @param predicate - Function deciding whether an event is the one waited for, defaults to any event
+   * @param options - Timeout and abort signal
+   * @returns The matching event
+   * 
+   * @throws {WaitForTimeoutError} When no matching event arrives within the timeout
+   * 
+   * @example
+   * ```typescript
+   * showPrompt('Press the lowest key on your keyboard');
+   * const { note: lowestNote } = await HuMIDI.waitFor('noteon');
+   * 
+   * showPrompt('Now play a middle C, softly');
+   * await HuMIDI.waitFor('noteon', (event) => event.note === 60 && event.velocity < 50, { timeout: 10000 });
+   * ```
+   */
+  public static waitFor<E extends EventName>(
+    event: E,
+    predicate?: (event: EventMap[E]) => boolean,
+    options: WaitForOptions = {},
+  ): Promise<EventMap[E]> {
+    return HuMIDI.defaultInstance.waitFor(event, predicate, options);
   }
 
   /**
@@ -591,107 +1393,1248 @@ export default class HuMIDI {
    * ```
    */
   public static unsubscribeToChannel(channel: number): void {
-    HuMIDI.eventHandlersByChannel?.delete(channel);
-  }
-
-  private static emit<T>(event: Event, payload: T, channel = -1) {
-    HuMIDI.getEventHandlers(event, channel)?.forEach(handler => handler(payload));
-    if (channel !== -1) {
-      HuMIDI.getEventHandlers(event, -1)?.forEach(handler => handler(payload));
-    }
+    HuMIDI.defaultInstance.unsubscribeToChannel(channel);
   }
 
-  private static getEventHandlers(event: Event, channel = -1) {
-    const channelHandlers = HuMIDI.eventHandlersByChannel?.get(channel);
-    return channelHandlers?.get(event);
-  }
+  private eventHandlersByChannel: Map<Channel, Map<EventName, Set<EventHandler>>> | null = new Map();
+  private enabled: boolean = true;
+  private middleware: Middleware[] = [];
+  private velocityCurve: VelocityCurve | null = null;
+  private zones: Zone[] = [];
+  private zoneHandlers: Map<string, Map<EventName, Set<EventHandler>>> = new Map();
+  /** Listeners registered for handlers subscribed with options, so `off` can find them */
+  private listenersByHandler: WeakMap<EventHandler, Set<EventHandler>> = new WeakMap();
+  /** Zones each held note fell in when it was pressed */
+  private noteZones: WeakMap<ActiveNote, Zone[]> = new WeakMap();
+  private activeNotes: Map<Channel, Map<number, ActiveNote>> = new Map();
+  private activeNotesByDevice: Map<string, Map<Channel, Map<number, ActiveNote>>> = new Map();
+  /** IDs of the devices whose sustain pedal is down on each channel, null for unknown devices */
+  private sustainedChannels: Map<Channel, Set<string | null>> = new Map();
+  /** Released notes held by a sustain pedal, keyed by device and channel */
+  private sustainedNotes: Map<string, Map<number, ActiveNote>> = new Map();
+  
+  private clock: MIDIClock = new MIDIClock();
+  private controlDecoder: ControlDecoder = new ControlDecoder();
+  private pitchBendRange = DEFAULT_PITCH_BEND_RANGE;
+  /** Pitch bend ranges set for a channel and/or input, keyed by getPitchBendRangeKey */
+  private pitchBendRanges: Map<string, number> = new Map();
+  /** MPE zones, or null when MPE mode is off */
+  private mpeZones: MPEZone[] | null = null;
+  private channelExpressions: Map<string, ChannelExpression> = new Map();
+  /** IDs of the notes pressed on MPE member channels */
+  private noteIds: WeakMap<ActiveNote, number> = new WeakMap();
+  private nextNoteId = 0;
+  private inputs: Map<string, MIDIInput> = new Map();
+  private outputs: Map<string, MIDIOutput> = new Map();
+  private readonly commandHandler: Record<Command, MidiMessageHandler> = {
+    [Commands.NOTE_ON]: this.onNoteOn.bind(this),
+    [Commands.NOTE_OFF]: this.onNoteOff.bind(this),
+    [Commands.PITCH_BEND]: this.onPitchBend.bind(this),
+    [Commands.CONTROL_CHANGE]: this.onControlChange.bind(this),
+    [Commands.PROGRAM_CHANGE]: this.onProgramChange.bind(this),
+    [Commands.CHANNEL_PRESSURE]: this.onChannelPressure.bind(this),
+    [Commands.POLY_AFTERTOUCH]: this.onPolyAftertouch.bind(this),
+  };
+  private readonly systemCommandHandler: Record<SystemCommand, SystemMessageHandler> = {
+    [SystemCommands.SYSEX]: this.onSysEx.bind(this),
+    [SystemCommands.SONG_POSITION]: this.onSongPosition.bind(this),
+    [SystemCommands.CLOCK]: this.onClock.bind(this),
+    [SystemCommands.START]: this.onStart.bind(this),
+    [SystemCommands.CONTINUE]: this.onContinue.bind(this),
+    [SystemCommands.STOP]: this.onStop.bind(this),
+  };
+  private readonly accessListener: AccessListener = {
+    onAccess: (access) => this.setupPorts(access),
+    onMessage: (message, inputId) => this.onMessage(message, inputId),
+    onStateChange: (event) => this.onStateChange(event),
+  };
 
-  private static onMessage(midiMessage: WebMidi.MIDIMessageEvent, inputId?: string) {
-    if (!HuMIDI.enabled) {
+  /**
+   * Request access to MIDI devices from the browser and start receiving messages on this instance.
+   * Access is shared between instances, so the browser is only asked again when an instance
+   * needs more than was granted: sysex access, or another backend.
+   * 
+   * @param options - Access options, e.g. `{ sysex: true }` to receive system exclusive messages,
+   * or `{ backend }` to use a MIDI backend other than the browser's Web MIDI API
+   * 
+   * @throws {Error} When MIDI access is denied by the user
+   * @throws {MIDIUnsupportedError} When the Web MIDI API is unavailable and no other backend is given
+   */
+  public async requestAccess(options: AccessOptions = {}): Promise<void> {
+    const access = await sharedAccess.requestAccess(options);
+    if (!access) {
       return;
     }
 
-    // Check if input is enabled
-    if (inputId) {
-      const input = HuMIDI.inputs.get(inputId);
-      if (input && !input.isEnabled()) {
-        return;
+    sharedAccess.attach(this.accessListener);
+    this.enabled = true;
+  }
+
+  private setupPorts(access: WebMidi.MIDIAccess) {
+    access.inputs.forEach(input => {
+      const inputInfo = getPortInfo(input);
+      if (!this.inputs.has(inputInfo.id)) {
+        this.inputs.set(inputInfo.id, new MIDIInput(inputInfo));
       }
-    }
+    });
 
-    const [status, data1, data2] = midiMessage.data;
+    // outputs are replaced, so messages go through the newest access, e.g. one granting sysex
+    access.outputs.forEach(output => {
+      const outputInfo = getPortInfo(output);
+      this.outputs.set(outputInfo.id, new MIDIOutput(outputInfo, output));
+    });
+  }
 
-    const command = commandTable[status];
-    if (command === undefined) {
-      // currently unsupported command
+  private onStateChange(event: WebMidi.MIDIConnectionEvent) {
+    if (event.port.type === 'output') {
+      this.onOutputStateChange(event.port as WebMidi.MIDIOutput);
       return;
     }
 
-    const channel = status - commandIndex[command];
-    const handler = HuMIDI.commandHandler[command];
-    if (!handler) {
-      return;
+    if (event.port.type !== 'input') return;
+
+    const inputInfo = getPortInfo(event.port);
+
+    if (event.port.state === 'connected') {
+      let midiInput = this.inputs.get(inputInfo.id);
+      if (!midiInput) {
+        midiInput = new MIDIInput(inputInfo);
+        this.inputs.set(inputInfo.id, midiInput);
+      }
+      midiInput.info.state = inputInfo.state;
+      
+      this.emit(Event.INPUT_CONNECTED, { input: midiInput });
+      return;
+    }
+    
+    if (event.port.state === 'disconnected') {
+      let midiInput = this.inputs.get(inputInfo.id);
+      if (!midiInput) {
+        // Create input object for disconnection event even if not previously tracked
+        midiInput = new MIDIInput(inputInfo);
+        this.inputs.set(inputInfo.id, midiInput);
+      }
+      midiInput.info.state = inputInfo.state;
+      
+      // Send note off for all active notes from this device to prevent stuck notes
+      this.handleDeviceDisconnect(inputInfo.id);
+      this.emit(Event.INPUT_DISCONNECTED, { input: midiInput });
+    }
+  }
+
+  private onOutputStateChange(port: WebMidi.MIDIOutput) {
+    const outputInfo = getPortInfo(port);
+
+    let midiOutput = this.outputs.get(outputInfo.id);
+    if (!midiOutput) {
+      midiOutput = new MIDIOutput(outputInfo, port);
+      this.outputs.set(outputInfo.id, midiOutput);
+    }
+    // the info is a snapshot taken when the output was first seen
+    midiOutput.info.state = outputInfo.state;
+
+    const event = port.state === 'connected'
+      ? Event.OUTPUT_CONNECTED
+      : Event.OUTPUT_DISCONNECTED;
+    this.emit(event, { output: midiOutput });
+  }
+
+  /**
+   * Get the current MIDI access status
+   * @returns The current access status
+   */
+  public getAccessStatus(): AccessStatus {
+    return sharedAccess.getStatus();
+  }
+
+  /**
+   * Check if MIDI permissions have been granted without requesting access.
+   * With the default Web MIDI backend this uses the Permissions API to query the current permission state.
+   * 
+   * @returns Promise that resolves to true if MIDI permissions are granted, false otherwise
+   */
+  public async hasPermissions(): Promise<boolean> {
+    return sharedAccess.hasPermissions();
+  }
+
+  /**
+   * Process a MIDI message as if it was received from a device.
+   * 
+   * @param data - Complete MIDI message bytes, including the status byte
+   * @param timestamp - Time the message was played, defaults to `performance.now()`
+   */
+  public dispatch(data: number[] | Uint8Array, timestamp = performance.now()): void {
+    const message = { data: Uint8Array.from(data), timeStamp: timestamp };
+    this.onMessage(message as WebMidi.MIDIMessageEvent);
+  }
+
+  /**
+   * Add a stage to the middleware chain that every incoming message passes through
+   * before notes are tracked and events are emitted.
+   * 
+   * @param middleware - Middleware stage, run after the previously added stages
+   * @returns Function that removes the stage again
+   */
+  public use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter(stage => stage !== middleware);
+    };
+  }
+
+  /**
+   * Set the velocity curve applied to notes from every input without a curve of its own.
+   * 
+   * @param curve - Velocity curve, or null to leave velocities unchanged
+   */
+  public setVelocityCurve(curve: VelocityCurve | null): void {
+    this.velocityCurve = curve;
+  }
+
+  /**
+   * Get the global velocity curve
+   * @returns The velocity curve, or null if velocities are left unchanged
+   */
+  public getVelocityCurve(): VelocityCurve | null {
+    return this.velocityCurve;
+  }
+
+  /**
+   * Define keyboard zones. Note offs are routed to the zones their note on fell in.
+   *
+   * @param zones - Zone definitions, replacing any previous zones
+   */
+  public setZones(zones: Zone[]): void {
+    this.zones = zones.map(zone => ({ ...zone }));
+  }
+
+  /**
+   * Get the zone definitions
+   */
+  public getZones(): Zone[] {
+    return this.zones.map(zone => ({ ...zone }));
+  }
+
+  /**
+   * Set the pitch bend range used to report pitch bends in semitones
+   * 
+   * @param semitones - Bend range in each direction, defaults to 2
+   * @param query - Channel and/or input the range applies to, or neither to set the default range
+   */
+  public setPitchBendRange(semitones: number, query: PitchBendRangeQuery = {}): void {
+    const { channel, inputId } = query;
+    if (channel === undefined && inputId === undefined) {
+      this.pitchBendRange = semitones;
+      return;
+    }
+
+    this.pitchBendRanges.set(getPitchBendRangeKey(channel, inputId), semitones);
+  }
+
+  /**
+   * Get the pitch bend range for a channel and input
+   * 
+   * @param query - Channel and/or input to get the range for
+   * @returns Bend range in semitones in each direction
+   */
+  public getPitchBendRange(query: PitchBendRangeQuery = {}): number {
+    const { channel, inputId } = query;
+    const keys = [
+      getPitchBendRangeKey(channel, inputId),
+      getPitchBendRangeKey(undefined, inputId),
+      getPitchBendRangeKey(channel, undefined),
+    ];
+    const key = keys.find(rangeKey => this.pitchBendRanges.has(rangeKey));
+    if (key !== undefined) {
+      return this.pitchBendRanges.get(key)!;
+    }
+
+    const mpeZone = this.mpeZones && channel !== undefined
+      ? findMPEZone(this.mpeZones, channel)
+      : null;
+    if (!mpeZone) {
+      return this.pitchBendRange;
+    }
+    return mpeZone.managerChannel === channel
+      ? DEFAULT_MANAGER_PITCH_BEND_RANGE
+      : DEFAULT_MEMBER_PITCH_BEND_RANGE;
+  }
+
+  /**
+   * Turn MPE (MIDI Polyphonic Expression) mode on or off
+   * 
+   * @param configuration - Member channel counts of the lower and upper zones, `{}` to
+   *   wait for the controller to configure its zones, or null to turn MPE mode off
+   */
+  public setMPEMode(configuration: MPEConfiguration | null): void {
+    this.mpeZones = configuration ? createMPEZones(configuration) : null;
+    this.channelExpressions.clear();
+  }
+
+  /**
+   * Check whether MPE mode is on
+   */
+  public isMPEEnabled(): boolean {
+    return this.mpeZones !== null;
+  }
+
+  /**
+   * Get the MPE zones
+   * 
+   * @returns The enabled zones, lower zone first, or an empty array when MPE mode is off
+   */
+  public getMPEZones(): MPEZone[] {
+    return this.mpeZones?.map(zone => ({ ...zone, memberChannels: [...zone.memberChannels] })) ?? [];
+  }
+
+  /**
+   * Enable or disable all MIDI processing.
+   * When disabled, all MIDI messages will be ignored.
+   * 
+   * @param enabled - True to enable MIDI processing, false to disable
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Check if MIDI processing is currently enabled
+   * @returns True if MIDI processing is enabled, false otherwise
+   */
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Get all available MIDI input devices
+   * 
+   * @returns Array of MIDIInput objects representing connected input devices
+   */
+  public getInputs(): MIDIInput[] {
+    return Array.from(this.inputs.values());
+  }
+
+  /**
+   * Get all available MIDI output devices
+   * 
+   * @returns Array of MIDIOutput objects representing connected output devices
+   */
+  public getOutputs(): MIDIOutput[] {
+    return Array.from(this.outputs.values());
+  }
+
+  /**
+   * Get the state of the external MIDI clock, including the estimated tempo.
+   * The tempo is derived from incoming timing clock messages (24 per quarter note).
+   *
+   * @returns Snapshot of the clock state
+   */
+  public getClockState(): ClockState {
+    return this.clock.getState();
+  }
+
+  /**
+   * Get the notes currently sounding on a channel: keys that are held down plus
+   * keys that were released while the sustain pedal is down.
+   *
+   * @param channel - MIDI channel to query (-1 for all channels)
+   * @returns Sorted array of MIDI note numbers
+   */
+  public getSoundingNotes(channel = -1): number[] {
+    const notes = new Set<number>();
+    this.activeNotes.forEach((channelNoteSet, noteChannel) => {
+      if (channel === -1 || channel === noteChannel) {
+        channelNoteSet.forEach((_value, note) => notes.add(note));
+      }
+    });
+    this.sustainedNotes.forEach(sustained => sustained.forEach(activeNote => {
+      if (channel === -1 || channel === activeNote.channel) {
+        notes.add(activeNote.note);
+      }
+    }));
+
+    return Array.from(notes).sort((a, b) => a - b);
+  }
+
+  /**
+   * Check whether the sustain pedal is currently down on a channel
+   *
+   * @param channel - MIDI channel (0-15)
+   * @param deviceId - Only check the pedal of this input device
+   * @returns True if the sustain pedal is down, false otherwise
+   */
+  public isSustainOn(channel: number, deviceId?: string): boolean {
+    const devices = this.sustainedChannels.get(channel);
+    return deviceId === undefined
+      ? !!devices?.size
+      : !!devices?.has(deviceId);
+  }
+
+  /**
+   * Get the notes that are currently held down, with their velocities and start times.
+   * 
+   * @param query - Optional channel and device filters
+   * @returns Active notes, ordered by the time they were pressed
+   */
+  public getActiveNotes(query: ActiveNotesQuery = {}): ActiveNote[] {
+    const { channel, deviceId } = query;
+    const channelNotes = deviceId === undefined
+      ? this.activeNotes
+      : this.activeNotesByDevice.get(deviceId);
+
+    const notes: ActiveNote[] = [];
+    channelNotes?.forEach((activeNotes, noteChannel) => {
+      if (channel === undefined || channel === noteChannel) {
+        notes.push(...activeNotes.values());
+      }
+    });
+
+    return notes.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Check whether a note is currently held down
+   * 
+   * @param note - MIDI note number (0-127)
+   * @param channel - MIDI channel to check (-1 for any channel)
+   * @returns True if the note is held down, false otherwise
+   */
+  public isNoteActive(note: number, channel = -1): boolean {
+    if (channel !== -1) {
+      return !!this.activeNotes.get(channel)?.has(note);
     }
 
-    // Pass device ID to note handlers for per-device tracking
-    if (command === Commands.NOTE_ON) {
-      (handler as any)(channel, data1, data2, inputId);
-    } else if (command === Commands.NOTE_OFF) {
-      (handler as any)(channel, data1, inputId);
+    return Array.from(this.activeNotes.values())
+      .some(channelNotes => channelNotes.has(note));
+  }
+
+  private trackNoteOn(activeNote: ActiveNote) {
+    const { channel, note, deviceId } = activeNote;
+
+    // Track globally (for backward compatibility)
+    if (!this.activeNotes.has(channel)) {
+      this.activeNotes.set(channel, new Map());
+    }
+    this.activeNotes.get(channel)!.set(note, activeNote);
+    
+    // Track per device
+    if (deviceId) {
+      if (!this.activeNotesByDevice.has(deviceId)) {
+        this.activeNotesByDevice.set(deviceId, new Map());
+      }
+      const deviceNotes = this.activeNotesByDevice.get(deviceId)!;
+      if (!deviceNotes.has(channel)) {
+        deviceNotes.set(channel, new Map());
+      }
+      deviceNotes.get(channel)!.set(note, activeNote);
+    }
+  }
+
+  private trackNoteOff(channel: number, note: number, deviceId?: string) {
+    // Track globally (for backward compatibility)
+    const channelNotes = this.activeNotes.get(channel);
+    if (channelNotes) {
+      channelNotes.delete(note);
+      if (channelNotes.size === 0) {
+        this.activeNotes.delete(channel);
+      }
+    }
+    
+    // Track per device
+    if (deviceId) {
+      const deviceNotes = this.activeNotesByDevice.get(deviceId);
+      if (deviceNotes) {
+        const deviceChannelNotes = deviceNotes.get(channel);
+        if (deviceChannelNotes) {
+          deviceChannelNotes.delete(note);
+          if (deviceChannelNotes.size === 0) {
+            deviceNotes.delete(channel);
+          }
+        }
+        if (deviceNotes.size === 0) {
+          this.activeNotesByDevice.delete(deviceId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the notes of a device sounding on a channel: its held keys and the notes
+   * its sustain pedal holds
+   */
+  private getDeviceSoundingNotes(channel: number, deviceId: string | null): ActiveNote[] {
+    const held = this.getActiveNotes({ channel, deviceId: deviceId ?? undefined })
+      .filter(activeNote => activeNote.deviceId === deviceId);
+    const sustained = this.sustainedNotes.get(getDeviceChannelKey(channel, deviceId))?.values() ?? [];
+    return [...held, ...sustained];
+  }
+
+  /**
+   * Return an MPE member channel to the default expression once its last note stops
+   * sounding, so the next note on the channel doesn't start with the previous note's
+   * bend, timbre and pressure
+   */
+  private resetChannelExpression(channel: number, deviceId: string | null) {
+    const zone = this.mpeZones && findMPEZone(this.mpeZones, channel);
+    if (!zone || zone.managerChannel === channel) return;
+
+    if (this.getDeviceSoundingNotes(channel, deviceId).length === 0) {
+      this.channelExpressions.delete(getDeviceChannelKey(channel, deviceId));
+    }
+  }
+
+  private handleDeviceDisconnect(deviceId: string) {
+    this.panic({ deviceId });
+
+    // an unplugged pedal can't be released anymore
+    this.sustainedChannels.forEach((devices, channel) => {
+      devices.delete(deviceId);
+      if (devices.size === 0) {
+        this.sustainedChannels.delete(channel);
+      }
+    });
+  }
+
+  /**
+   * Release every tracked note by emitting a note off for it, and clear the note tracking.
+   * Incoming all-sound-off (CC 120) messages trigger this automatically for their channel
+   * and input. All-notes-off (CC 123) messages release the held keys the same way, but
+   * leave notes held by the sustain pedal until the pedal is released.
+   * 
+   * @param query - Optionally limit the release to a channel and/or input device.
+   *   Notes held by the sustain pedal are released as well.
+   */
+  public panic(query: ActiveNotesQuery = {}): void {
+    const { channel, deviceId } = query;
+    const isChannelMatch = (noteChannel: number) => channel === undefined || channel === noteChannel;
+
+    const releasedNotes = this.getActiveNotes(query);
+    releasedNotes.forEach(activeNote => {
+      this.trackNoteOff(activeNote.channel, activeNote.note, activeNote.deviceId ?? undefined);
+    });
+
+    if (deviceId === undefined) {
+      // the same key may still be tracked for another device
+      this.activeNotesByDevice.forEach((deviceNotes, id) => {
+        deviceNotes.forEach((_notes, noteChannel) => {
+          if (isChannelMatch(noteChannel)) {
+            deviceNotes.delete(noteChannel);
+          }
+        });
+        if (deviceNotes.size === 0) {
+          this.activeNotesByDevice.delete(id);
+        }
+      });
+    }
+
+    this.sustainedNotes.forEach((notes, key) => {
+      const sustained = Array.from(notes.values()).filter(activeNote => (
+        isChannelMatch(activeNote.channel) && (deviceId === undefined || activeNote.deviceId === deviceId)
+      ));
+      sustained.forEach(activeNote => notes.delete(activeNote.note));
+      releasedNotes.push(...sustained);
+      if (notes.size === 0) {
+        this.sustainedNotes.delete(key);
+      }
+    });
+
+    releasedNotes.forEach(activeNote => this.emitNoteOff(activeNote, false));
+  }
+
+  /**
+   * Reset this instance to its initial state.
+   * This clears its event handlers and device tracking, and detaches it from the
+   * shared MIDI access until access is requested again. Other instances are unaffected.
+   */
+  public reset(): void {
+    sharedAccess.detach(this.accessListener);
+    this.eventHandlersByChannel = null;
+    this.enabled = true;
+    this.middleware = [];
+    this.velocityCurve = null;
+    this.zones = [];
+    this.zoneHandlers.clear();
+    this.listenersByHandler = new WeakMap();
+    this.activeNotes.clear();
+    this.activeNotesByDevice.clear();
+    this.sustainedChannels.clear();
+    this.sustainedNotes.clear();
+    this.inputs.clear();
+    this.outputs.clear();
+    this.clock.reset();
+    this.controlDecoder.reset();
+    this.pitchBendRange = DEFAULT_PITCH_BEND_RANGE;
+    this.pitchBendRanges.clear();
+    this.mpeZones = null;
+    this.channelExpressions.clear();
+    this.noteIds = new WeakMap();
+    this.nextNoteId = 0;
+  }
+
+  /**
+   * Register an event handler for MIDI events
+   * 
+   * @param event - The MIDI event type to listen for
+   * @param handler - Function to call when the event occurs
+   * @param channel - MIDI channel to listen on (-1 for all channels, 0-15 for specific channels),
+   * or options filtering the events the handler is called for
+   * @returns Function that removes the handler again
+   */
+  public on<E extends EventName>(
+    event: E,
+    handler: EventHandler<EventMap[E]>,
+    channel: number | EventHandlerOptions = -1,
+  ): () => void {
+    if (typeof channel === 'number') {
+      const eventHandlers = this.getOrCreateEventHandlers(event, channel);
+      eventHandlers.add(handler);
+      return () => {
+        eventHandlers.delete(handler);
+      };
+    }
+
+    const options = channel;
+    const { signal } = options;
+    if (signal?.aborted) {
+      return () => {};
+    }
+
+    // every registration gets its own listener, so it can be removed on its own
+    const listener: EventHandler = payload => {
+      if (!matchesOptions(options, payload)) return;
+
+      if (options.once) {
+        unsubscribe();
+      }
+      handler(payload);
+    };
+    if (!this.listenersByHandler.has(handler)) {
+      this.listenersByHandler.set(handler, new Set());
+    }
+    this.listenersByHandler.get(handler)!.add(listener);
+
+    const listenerSets = options.zone !== undefined
+      ? [this.getOrCreateZoneHandlers(event, options.zone)]
+      : toChannelList(options.channel).map(listenerChannel => this.getOrCreateEventHandlers(event, listenerChannel));
+    listenerSets.forEach(listeners => listeners.add(listener));
+
+    const unsubscribe = () => {
+      listenerSets.forEach(listeners => listeners.delete(listener));
+      this.listenersByHandler.get(handler)?.delete(listener);
+      signal?.removeEventListener('abort', unsubscribe);
+    };
+    signal?.addEventListener('abort', unsubscribe);
+    return unsubscribe;
+  }
+
+  /**
+   * Remove an event handler
+   * 
+   * @param event - The MIDI event type
+   * @param handler - The handler function to remove
+   * @param channel - Only remove the handler from this MIDI channel (-1 for all channels),
+   * or from the channels or zone in these options. Removed from everywhere when omitted.
+   */
+  public off<E extends EventName>(
+    event: E,
+    handler: EventHandler<EventMap[E]>,
+    channel?: number | EventHandlerOptions,
+  ): void {
+    const listeners = [handler, ...this.listenersByHandler.get(handler) ?? []];
+    const remove = (eventHandlers?: Set<EventHandler>) => {
+      listeners.forEach(listener => eventHandlers?.delete(listener));
+    };
+
+    if (typeof channel === 'number') {
+      remove(this.getEventHandlers(event, channel));
+    } else if (channel?.zone !== undefined) {
+      remove(this.zoneHandlers.get(channel.zone)?.get(event));
+    } else if (channel?.channel !== undefined) {
+      toChannelList(channel.channel).forEach(handlerChannel => remove(this.getEventHandlers(event, handlerChannel)));
     } else {
-      handler(channel, data1, data2);
+      this.eventHandlersByChannel?.forEach(channelHandlers => remove(channelHandlers.get(event)));
+      this.zoneHandlers.forEach(zoneHandlers => remove(zoneHandlers.get(event)));
     }
   }
 
-  private static onNoteOn(channel: number, note: number, velocity: number, deviceId?: string) {
+  private getOrCreateEventHandlers(event: EventName, channel: number): Set<EventHandler> {
+    if (!this.eventHandlersByChannel) {
+      this.eventHandlersByChannel = new Map();
+    }
+
+    if (!this.eventHandlersByChannel.get(channel)) {
+      this.eventHandlersByChannel.set(channel, new Map());
+    }
+
+    const channelHandlers = this.eventHandlersByChannel.get(channel);
+    if (!channelHandlers!.get(event)) {
+      channelHandlers!.set(event, new Set());
+    }
+
+    return channelHandlers!.get(event)!;
+  }
+
+  private getOrCreateZoneHandlers(event: EventName, zone: string): Set<EventHandler> {
+    if (!this.zoneHandlers.has(zone)) {
+      this.zoneHandlers.set(zone, new Map());
+    }
+
+    const zoneHandlers = this.zoneHandlers.get(zone)!;
+    if (!zoneHandlers.has(event)) {
+      zoneHandlers.set(event, new Set());
+    }
+
+    return zoneHandlers.get(event)!;
+  }
+
+  /**
+   * Stream events as an async iterable, or as a `ReadableStream` through `toReadableStream()`
+   * 
+   * @param options - Event types and channels to stream, and buffering options
+   * @returns Stream of events, each tagged with its event type
+   */
+  public events<E extends EventName = typeof Event.MESSAGE>(
+    options: EventStreamOptions<E> = {},
+  ): MIDIEventStream<StreamedEvent<E>> {
+    const { types = [Event.MESSAGE as E], channel } = options;
+    return new MIDIEventStream<StreamedEvent<E>>(push => {
+      const unsubscribes = types.map(type => this.on(
+        type,
+        event => push({ ...event, type } as StreamedEvent<E>),
+        { channel },
+      ));
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    }, options);
+  }
+
+  /**
+   * Wait for the next event matching a predicate
+   * 
+   * @param event - The MIDI event type to wait for
+   * @param predicate - Function deciding whether an event is the one waited for, defaults to any event
+   * @param options - Timeout and abort signal
+   * @returns The matching event
+   * 
+   * @throws {WaitForTimeoutError} When no matching event arrives within the timeout
+   */
+  public waitFor<E extends EventName>(
+    event: E,
+    predicate: (event: EventMap[E]) => boolean = () => true,
+    options: WaitForOptions = {},
+  ): Promise<EventMap[E]> {
+    const { timeout, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const finish = () => {
+        unsubscribe();
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+
+      const unsubscribe = this.on(event, payload => {
+        try {
+          if (!predicate(payload)) return;
+        } catch (error) {
+          finish();
+          reject(error);
+          return;
+        }
+        finish();
+        resolve(payload);
+      });
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          finish();
+          reject(new WaitForTimeoutError(event, timeout));
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Remove all event handlers for a specific MIDI channel
+   * 
+   * @param channel - MIDI channel to unsubscribe from (0-15)
+   */
+  public unsubscribeToChannel(channel: number): void {
+    this.eventHandlersByChannel?.delete(channel);
+  }
+
+  private emit<E extends EventName>(event: E, payload: EventMap[E], channel = -1) {
+    this.getEventHandlers(event, channel)?.forEach(handler => handler(payload));
+    if (channel !== -1) {
+      this.getEventHandlers(event, -1)?.forEach(handler => handler(payload));
+    }
+  }
+
+  private getEventHandlers(event: EventName, channel = -1) {
+    const channelHandlers = this.eventHandlersByChannel?.get(channel);
+    return channelHandlers?.get(event);
+  }
+
+  /**
+   * Emit a note event to the handlers of each zone, with the note transposed for the zone
+   */
+  private emitToZones<T extends NoteOnEvent | NoteOffEvent>(event: EventName, payload: T, zones: Zone[]) {
+    zones.forEach(zone => {
+      const note = payload.note + (zone.transpose ?? 0);
+      this.zoneHandlers.get(zone.name)?.get(event)?.forEach(handler => handler({ ...payload, note }));
+    });
+  }
+
+  private onMessage(midiMessage: WebMidi.MIDIMessageEvent, inputId?: string) {
+    if (!this.enabled) {
+      return;
+    }
+
+    // Check if input is enabled
+    const input = inputId ? this.inputs.get(inputId) ?? null : null;
+    if (input && !input.isEnabled()) {
+      return;
+    }
+
+    const message: MIDIMessage = {
+      timestamp: midiMessage.timeStamp ?? performance.now(),
+      input,
+      raw: midiMessage.data,
+    };
+    applyMiddleware(this.middleware, message).forEach(result => this.processMessage(result));
+  }
+
+  private processMessage({ timestamp, input, raw }: MIDIMessage) {
+    const [status, data1, data2] = raw;
+
+    const systemCommand = systemCommandTable[status];
+    if (systemCommand !== undefined) {
+      const metadata = { timestamp, channel: -1, input, raw };
+      this.emit(Event.MESSAGE, metadata);
+      this.systemCommandHandler[systemCommand](metadata);
+      return;
+    }
+
+    const command = commandTable[status];
+    if (command === undefined) {
+      // currently unsupported command
+      return;
+    }
+
+    const channel = status - commandIndex[command];
+    const metadata = { timestamp, channel, input, raw };
+    this.emit(Event.MESSAGE, metadata, channel);
+    this.commandHandler[command](metadata, data1, data2);
+  }
+
+  private onNoteOn(metadata: MIDIMessageMetadata, note: number, velocity: number) {
     // not really spec, but some keyboards send note on with no velocity as note off events
     if (!velocity) {
-      HuMIDI.onNoteOff(channel, note, deviceId);
+      this.onNoteOff(metadata, note);
       return;
     }
 
-    HuMIDI.trackNoteOn(channel, note, deviceId);
-    HuMIDI.emit<NoteOnEvent>(
-      Event.NOTE_ON,
-      { note, velocity },
+    const { channel } = metadata;
+    const deviceId = metadata.input?.id ?? null;
+    const velocityCurve = metadata.input?.getVelocityCurve() ?? this.velocityCurve;
+    const mappedVelocity = velocityCurve
+      ? applyVelocityCurve(velocityCurve, velocity)
+      : velocity;
+    const zones = findZones(this.zones, { note, velocity: mappedVelocity, channel, inputId: deviceId });
+
+    const activeNote = {
+      note,
       channel,
-    );
+      velocity,
+      timestamp: metadata.timestamp,
+      deviceId,
+    };
+    this.trackNoteOn(activeNote);
+    this.noteZones.set(activeNote, zones);
+    // a re-struck key is held again rather than sustained
+    this.sustainedNotes.get(getDeviceChannelKey(channel, deviceId))?.delete(note);
+
+    const payload = { ...metadata, note, velocity, mappedVelocity, zones: zones.map(zone => zone.name) };
+    this.emit(Event.NOTE_ON, payload, channel);
+    this.emitToZones(Event.NOTE_ON, payload, zones);
+
+    const mpeZone = this.mpeZones && findMPEZone(this.mpeZones, channel);
+    if (mpeZone && mpeZone.managerChannel !== channel) {
+      this.noteIds.set(activeNote, this.nextNoteId++);
+      this.emitNoteExpression(metadata, activeNote, mpeZone);
+    }
   }
 
-  private static onNoteOff(channel: number, note: number, deviceId?: string) {
-    HuMIDI.trackNoteOff(channel, note, deviceId);
-    HuMIDI.emit<NoteOffEvent>(
-      Event.NOTE_OFF,
-      { note },
+  private onNoteOff(metadata: MIDIMessageMetadata, note: number) {
+    const { channel, input } = metadata;
+    const deviceId = input?.id;
+    const activeNote = deviceId
+      ? this.activeNotesByDevice.get(deviceId)?.get(channel)?.get(note)
+      : this.activeNotes.get(channel)?.get(note);
+    this.trackNoteOff(channel, note, deviceId);
+
+    // defer the note off until the sustain pedal of the same input is released
+    if (this.sustainedChannels.get(channel)?.has(deviceId ?? null)) {
+      const key = getDeviceChannelKey(channel, deviceId ?? null);
+      if (!this.sustainedNotes.has(key)) {
+        this.sustainedNotes.set(key, new Map());
+      }
+      this.sustainedNotes.get(key)!.set(note, activeNote ?? {
+        note,
+        channel,
+        velocity: 0,
+        timestamp: metadata.timestamp,
+        deviceId: deviceId ?? null,
+      });
+      return;
+    }
+
+    this.resetChannelExpression(channel, deviceId ?? null);
+    const zones = activeNote ? this.noteZones.get(activeNote) ?? [] : [];
+    const payload = { ...metadata, note, sustained: false, zones: zones.map(zone => zone.name) };
+    this.emit(Event.NOTE_OFF, payload, channel);
+    this.emitToZones(Event.NOTE_OFF, payload, zones);
+  }
+
+  private setSustain(channel: number, deviceId: string | null, isOn: boolean, timestamp: number) {
+    if (isOn) {
+      if (!this.sustainedChannels.has(channel)) {
+        this.sustainedChannels.set(channel, new Set());
+      }
+      this.sustainedChannels.get(channel)!.add(deviceId);
+      return;
+    }
+
+    const devices = this.sustainedChannels.get(channel);
+    devices?.delete(deviceId);
+    if (devices?.size === 0) {
+      this.sustainedChannels.delete(channel);
+    }
+
+    const key = getDeviceChannelKey(channel, deviceId);
+    const notes = this.sustainedNotes.get(key);
+    if (!notes) return;
+
+    this.sustainedNotes.delete(key);
+    notes.forEach(activeNote => this.emitNoteOff(activeNote, true, timestamp));
+  }
+
+  /**
+   * Release the held keys on a channel as if each got a note off, so notes stay
+   * sounding while the sustain pedal of their input is down
+   */
+  private allNotesOff(metadata: MIDIMessageMetadata, deviceId?: string) {
+    const { channel } = metadata;
+    this.getActiveNotes({ channel, deviceId }).forEach(activeNote => {
+      const input = activeNote.deviceId ? this.inputs.get(activeNote.deviceId) ?? null : null;
+      const raw = new Uint8Array([commandIndex[Commands.NOTE_OFF] + channel, activeNote.note, 0]);
+      this.onNoteOff({ ...metadata, input, raw }, activeNote.note);
+    });
+  }
+
+  /**
+   * Emit a note off that was not sent by a device, e.g. when releasing sustained or stuck notes
+   */
+  private emitNoteOff(activeNote: ActiveNote, sustained: boolean, timestamp = performance.now()) {
+    const { note, channel, deviceId } = activeNote;
+    this.resetChannelExpression(channel, deviceId);
+    const zones = this.noteZones.get(activeNote) ?? [];
+    const payload = {
+      note,
+      sustained,
+      zones: zones.map(zone => zone.name),
+      timestamp,
       channel,
-    );
+      input: deviceId ? this.inputs.get(deviceId) ?? null : null,
+      raw: new Uint8Array([commandIndex[Commands.NOTE_OFF] + channel, note, 0]),
+    };
+    this.emit(Event.NOTE_OFF, payload, channel);
+    this.emitToZones(Event.NOTE_OFF, payload, zones);
   }
 
-  private static onPitchBend(channel: number, lsb: number, msb: number) {
+  private onPitchBend(metadata: MIDIMessageMetadata, lsb: number, msb: number) {
+    const { channel, input } = metadata;
     const rawValue = (msb << 7) + lsb;
-    HuMIDI.emit<PitchBendEvent>(
+    const value = (rawValue - 8192) / 8192;
+    const range = this.getPitchBendRange({ channel, inputId: input?.id });
+    const semitones = value * range;
+    this.emit(
       Event.PITCH_BEND,
-      { value: (rawValue - 8192) / 8192 },
+      { ...metadata, value, rawValue, semitones },
+      channel,
+    );
+    this.updateChannelExpression(metadata, { pitchBend: semitones });
+  }
+
+  private onProgramChange(metadata: MIDIMessageMetadata, program: number) {
+    this.emit(
+      Event.PROGRAM_CHANGE,
+      { ...metadata, program },
+      metadata.channel,
+    );
+  }
+
+  private onChannelPressure(metadata: MIDIMessageMetadata, pressure: number) {
+    this.emit(
+      Event.CHANNEL_PRESSURE,
+      { ...metadata, pressure, value: pressure / 127 },
+      metadata.channel,
+    );
+    this.updateChannelExpression(metadata, { pressure: pressure / 127 });
+  }
+
+  private onPolyAftertouch(metadata: MIDIMessageMetadata, note: number, pressure: number) {
+    this.emit(
+      Event.POLY_AFTERTOUCH,
+      { ...metadata, note, pressure, value: pressure / 127 },
+      metadata.channel,
+    );
+  }
+
+  private onSysEx(metadata: MIDIMessageMetadata) {
+    const message = parseSysEx(metadata.raw);
+    if (!message) {
+      return;
+    }
+
+    this.emit(Event.SYSEX, { ...metadata, ...message });
+
+    const identity = parseIdentityReply(metadata.raw);
+    if (identity) {
+      this.emit(Event.IDENTITY_REPLY, { ...metadata, ...identity });
+    }
+  }
+
+  private onClock(metadata: MIDIMessageMetadata) {
+    const beat = this.clock.tick(metadata.timestamp);
+    if (beat === null) {
+      return;
+    }
+
+    this.emit(Event.BEAT, {
+      ...metadata,
+      beat,
+      bpm: this.clock.getState().bpm,
+    });
+  }
+
+  private onStart(metadata: MIDIMessageMetadata) {
+    this.clock.start();
+    this.emit(Event.START, { ...metadata, position: 0 });
+  }
+
+  private onContinue(metadata: MIDIMessageMetadata) {
+    this.clock.continue();
+    this.emit(Event.CONTINUE, {
+      ...metadata,
+      position: this.clock.getState().position,
+    });
+  }
+
+  private onStop(metadata: MIDIMessageMetadata) {
+    this.clock.stop();
+    this.emit(Event.STOP, {
+      ...metadata,
+      position: this.clock.getState().position,
+    });
+  }
+
+  private onSongPosition(metadata: MIDIMessageMetadata) {
+    const [, lsb, msb] = metadata.raw;
+    const position = (msb << 7) + lsb;
+    this.clock.setSongPosition(position);
+    this.emit(Event.SONG_POSITION, {
+      ...metadata,
+      position,
+      beat: position / 4,
+    });
+  }
+
+  private onControlChange(metadata: MIDIMessageMetadata, controller: number, value: number) {
+    const { channel } = metadata;
+    const name = controlCommandTable[controller] ?? null;
+    this.emit(
+      Event.CONTROL_CHANGE,
+      { ...metadata, controller, value, name },
       channel,
     );
+    this.emitDecodedControl(metadata, controller, value);
+    if (name === ControlCommands.BRIGHTNESS) {
+      this.updateChannelExpression(metadata, { timbre: value / 127 });
+    }
+    if (!name) {
+      return;
+    }
+
+    const pedalEvents = pedalEventTable[name];
+    if (pedalEvents) {
+      const [onEvent, offEvent] = pedalEvents;
+      const isOn = value >= 64;
+      this.emit(
+        isOn ? onEvent : offEvent,
+        { ...metadata, value },
+        channel,
+      );
+      if (name === ControlCommands.SUSTAIN) {
+        this.setSustain(channel, metadata.input?.id ?? null, isOn, metadata.timestamp);
+      }
+      return;
+    }
+
+    const valueEvent = controllerValueEventTable[name];
+    if (valueEvent) {
+      this.emit(valueEvent, { ...metadata, value }, channel);
+    }
+
+    // messages not sent by a known device silence the whole channel
+    const deviceId = metadata.input?.id;
+    if (name === ControlCommands.ALL_NOTES_OFF) {
+      this.allNotesOff(metadata, deviceId);
+    } else if (name === ControlCommands.ALL_SOUND_OFF) {
+      this.panic({ channel, deviceId });
+    }
   }
 
-  private static onControlChange(channel: number, control: number, value:  number) {
-    const controlCommand = controlCommandTable[control];
+  private emitDecodedControl(metadata: MIDIMessageMetadata, controller: number, data: number) {
+    const { channel } = metadata;
+    const decoded = this.controlDecoder.decode(metadata.input?.id ?? null, channel, controller, data);
+    if (!decoded) return;
+
+    if (decoded.type === Event.CONTROL_CHANGE_14) {
+      this.emit(
+        Event.CONTROL_CHANGE_14,
+        {
+          ...metadata,
+          controller: decoded.controller,
+          value: decoded.value,
+          name: controlCommandTable[decoded.controller] ?? null,
+        },
+        channel,
+      );
+      return;
+    }
+
+    const { parameter, value } = decoded;
+    if (decoded.type === ParameterTypes.NRPN) {
+      this.emit(Event.NRPN, { ...metadata, parameter, value }, channel);
+      return;
+    }
 
-    switch (controlCommand) {
-      case ControlCommands.SUSTAIN:
-        const eventType = value >= 64
-          ? Event.SUSTAIN_ON
-          : Event.SUSTAIN_OFF;
-        HuMIDI.emit<SustainEvent>(
-          eventType,
-          { value },
-          channel,
-        );
-        break;
-      default:
-        break
+    const name = registeredParameterTable[parameter] ?? null;
+    const semitones = getParameterSemitones(parameter, value);
+    if (name === RegisteredParameters.PITCH_BEND_RANGE && semitones !== null) {
+      // messages not sent by a known device set the range of the whole channel
+      this.setPitchBendRange(semitones, { channel, inputId: metadata.input?.id });
     }
+
+    const managedZoneType = getManagedZoneType(channel);
+    if (name === RegisteredParameters.MPE_CONFIGURATION && this.mpeZones && managedZoneType) {
+      this.configureMPEZone(managedZoneType, value >> 7, metadata.input?.id);
+    }
+
+    this.emit(
+      Event.RPN,
+      { ...metadata, parameter, value, name, semitones },
+      channel,
+    );
   }
+
+  /**
+   * Apply an MPE Configuration Message, which also resets the pitch bend ranges
+   * of the zone's channels to the MPE defaults
+   */
+  private configureMPEZone(type: MPEZoneType, memberCount: number, inputId?: string) {
+    this.mpeZones = configureMPEZone(this.mpeZones ?? [], type, memberCount);
+    const zone = this.mpeZones.find(mpeZone => mpeZone.type === type);
+    if (!zone) return;
+
+    [zone.managerChannel, ...zone.memberChannels].forEach(channel => {
+      this.pitchBendRanges.delete(getPitchBendRangeKey(channel, inputId));
+    });
+  }
+
+  /**
+   * Store an expression change on an MPE channel, and emit the new expression of
+   * the notes it shapes: the note on a member channel, or every note of the zone
+   * for a pitch bend on the manager channel
+   */
+  private updateChannelExpression(metadata: MIDIMessageMetadata, expression: Partial<ChannelExpression>) {
+    const { channel } = metadata;
+    const zone = this.mpeZones && findMPEZone(this.mpeZones, channel);
+    if (!zone) return;
+
+    const deviceId = metadata.input?.id ?? null;
+    const key = getDeviceChannelKey(channel, deviceId);
+    this.channelExpressions.set(key, { ...this.getChannelExpression(channel, deviceId), ...expression });
+
+    const isManager = channel === zone.managerChannel;
+    if (isManager && expression.pitchBend === undefined) {
+      // only pitch bend on the manager channel shapes the zone's notes
+      return;
+    }
+
+    const channels = isManager ? zone.memberChannels : [channel];
+    channels.forEach(noteChannel => {
+      this.getDeviceSoundingNotes(noteChannel, deviceId)
+        .forEach(activeNote => this.emitNoteExpression(metadata, activeNote, zone));
+    });
+  }
+
+  private getChannelExpression(channel: number, deviceId: string | null): ChannelExpression {
+    return this.channelExpressions.get(getDeviceChannelKey(channel, deviceId)) ?? DEFAULT_CHANNEL_EXPRESSION;
+  }
+
+  private emitNoteExpression(metadata: MIDIMessageMetadata, activeNote: ActiveNote, zone: MPEZone) {
+    const noteId = this.noteIds.get(activeNote);
+    if (noteId === undefined) {
+      // pressed before MPE mode was turned on
+      return;
+    }
+
+    const { note, channel, deviceId } = activeNote;
+    const member = this.getChannelExpression(channel, deviceId);
+    const manager = this.getChannelExpression(zone.managerChannel, deviceId);
+    this.emit(
+      Event.NOTE_EXPRESSION,
+      {
+        ...metadata,
+        channel,
+        noteId,
+        note,
+        pitchBend: member.pitchBend + manager.pitchBend,
+        timbre: member.timbre,
+        pressure: member.pressure,
+      },
+      channel,
+    );
+  }
+}
+
+/**
+ * Create an isolated HuMIDI instance with its own event handlers, enable state,
+ * input filters and note tracking. All instances share one underlying MIDI access.
+ * 
+ * @returns A new HuMIDI instance
+ * 
+ * @example
+ * ```typescript
+ * const left = createHuMIDI();
+ * const right = createHuMIDI();
+ * await Promise.all([left.requestAccess(), right.requestAccess()]);
+ * 
+ * // Disabling an input only affects this instance
+ * left.getInputs()[0]?.disable();
+ * ```
+ */
+export function createHuMIDI(): HuMIDI {
+  return new HuMIDI();
 }
@@ -1,12 +1,130 @@
-export { default } from './humidi';
+export { default, createHuMIDI } from './humidi';
 
 export type {
+  MIDIMessageMetadata,
   NoteOnEvent,
   NoteOffEvent,
+  NoteExpressionEvent,
   PitchBendEvent,
   SustainEvent,
+  ControllerEvent,
+  ControlChangeEvent,
+  ControlChange14Event,
+  RPNEvent,
+  NRPNEvent,
+  ProgramChangeEvent,
+  ChannelPressureEvent,
+  PolyAftertouchEvent,
+  SysExEvent,
+  IdentityReplyEvent,
+  TransportEvent,
+  SongPositionEvent,
+  BeatEvent,
+  AccessOptions,
+  ActiveNote,
+  ActiveNotesQuery,
+  PitchBendRangeQuery,
   MIDIInputInfo,
+  MIDIOutputInfo,
   InputEvent,
+  OutputEvent,
+  EventName,
+  EventMap,
+  EventHandlerOptions,
+  EventStreamOptions,
+  StreamedEvent,
+  WaitForOptions,
 } from './humidi';
 
-export { MIDIInput } from './humidi';
+export { MIDIInput, MIDIOutput } from './humidi';
+export { ControlCommands } from './controlCommands';
+export type { ControlCommand } from './controlCommands';
+export type { ClockState } from './clock';
+export {
+  UniversalSysEx,
+  parseSysEx,
+  createSysEx,
+  createIdentityRequest,
+  parseIdentityReply,
+} from './sysex';
+export type { SysExMessage, IdentityReply } from './sysex';
+export {
+  WebMIDIBackend,
+  MIDIAccessBackend,
+  MIDIUnsupportedError,
+} from './backend';
+export type { MIDIBackend, RequestMIDIAccess } from './backend';
+export {
+  VirtualMIDIBackend,
+  VirtualMIDIInput,
+  VirtualMIDIOutput,
+} from './virtualBackend';
+export type {
+  VirtualMIDIBackendOptions,
+  VirtualPortOptions,
+  VirtualMessage,
+} from './virtualBackend';
+export { MetaEvents, parseMIDIFile, ticksToSeconds } from './midiFile';
+export type {
+  MetaEvent,
+  MetaEventName,
+  MIDIFile,
+  MIDIFileEvent,
+  MIDIFileTrack,
+  TempoChange,
+  TimeSignature,
+} from './midiFile';
+export { writeMIDIFile } from './midiFileWriter';
+export type {
+  MIDIFileWriteOptions,
+  WritableEvent,
+  WritableTrack,
+} from './midiFileWriter';
+export { Recorder, RecorderState } from './recorder';
+export type {
+  RecorderOptions,
+  RecorderSource,
+  RecordedEvent,
+  RecordedTake,
+} from './recorder';
+export { Player, PlayerState } from './player';
+export type {
+  PlayerOptions,
+  PlayerTarget,
+  PlayableEvent,
+  LoopRange,
+} from './player';
+export {
+  transpose,
+  remapChannel,
+  scaleVelocity,
+  noteRange,
+  filterTypes,
+} from './middleware';
+export type { MIDIMessage, Middleware } from './middleware';
+export { VelocityCurveType, applyVelocityCurve } from './velocity';
+export type { VelocityCurve } from './velocity';
+export { VelocityCalibration } from './velocityCalibration';
+export type { CalibrationStrength, VelocityCalibrationOptions } from './velocityCalibration';
+export type { Zone } from './zones';
+export {
+  BufferOverflow,
+  EventBufferOverflowError,
+  MIDIEventStream,
+  WaitForTimeoutError,
+} from './eventStream';
+export type { EventBufferOptions } from './eventStream';
+export {
+  ControlDecoder,
+  ParameterTypes,
+  RegisteredParameters,
+  getParameterSemitones,
+} from './controlDecoder';
+export type { DecodedControl, ParameterType, RegisteredParameter } from './controlDecoder';
+export {
+  MPEZoneTypes,
+  configureMPEZone,
+  createMPEZones,
+  findMPEZone,
+} from './mpe';
+export type { MPEConfiguration, MPEZone, MPEZoneType } from './mpe';
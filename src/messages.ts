@@ -0,0 +1,66 @@
+/**
+ * Channel voice message builders
+ *
+ * ref: https://midi.org/midi-1-0-detailed-specification (Channel Voice Messages)
+**/
+
+import { Commands, commandIndex } from './commands';
+
+import type { Command } from './commands';
+
+/**
+ * Build a channel voice message.
+ *
+ * @param command - Channel command
+ * @param channel - MIDI channel (0-15)
+ * @param data - Data bytes (7-bit)
+ * @returns Message bytes, starting with the status byte
+ */
+export function createChannelMessage(command: Command, channel: number, data: number[]): number[] {
+  const status = commandIndex[command] + (channel & 0x0f);
+  return [status, ...data.map(byte => byte & 0x7f)];
+}
+
+/**
+ * Build a note on message.
+ *
+ * @param note - MIDI note number (0-127)
+ * @param velocity - Note velocity (1-127)
+ * @param channel - MIDI channel (0-15)
+ */
+export function createNoteOn(note: number, velocity: number, channel = 0): number[] {
+  return createChannelMessage(Commands.NOTE_ON, channel, [note, velocity]);
+}
+
+/**
+ * Build a note off message.
+ *
+ * @param note - MIDI note number (0-127)
+ * @param velocity - Release velocity (0-127)
+ * @param channel - MIDI channel (0-15)
+ */
+export function createNoteOff(note: number, velocity = 0, channel = 0): number[] {
+  return createChannelMessage(Commands.NOTE_OFF, channel, [note, velocity]);
+}
+
+/**
+ * Build a control change message.
+ *
+ * @param controller - Controller number (0-127)
+ * @param value - Controller value (0-127)
+ * @param channel - MIDI channel (0-15)
+ */
+export function createControlChange(controller: number, value: number, channel = 0): number[] {
+  return createChannelMessage(Commands.CONTROL_CHANGE, channel, [controller, value]);
+}
+
+/**
+ * Build a pitch bend message.
+ *
+ * @param value - Bend amount from -1.0 (maximum down) to +1.0 (maximum up), with 0.0 being center
+ * @param channel - MIDI channel (0-15)
+ */
+export function createPitchBend(value: number, channel = 0): number[] {
+  const rawValue = Math.min(16383, Math.max(0, Math.round(value * 8192 + 8192)));
+  return createChannelMessage(Commands.PITCH_BEND, channel, [rawValue & 0x7f, rawValue >> 7]);
+}
@@ -0,0 +1,153 @@
+/**
+ * Message middleware
+ *
+ * Middleware runs on every incoming message before HuMIDI tracks notes or emits
+ * events. Each stage receives one message and returns it (modified or not), a
+ * list of messages to fan out to, or null to drop it.
+**/
+
+import { Commands, commandIndex, commandTable, systemCommandTable } from './commands';
+
+import type { Command, SystemCommand } from './commands';
+import type { MIDIMessageMetadata } from './humidi';
+
+/**
+ * A MIDI message passing through the middleware chain
+ */
+export type MIDIMessage = Pick<MIDIMessageMetadata, 'timestamp' | 'input' | 'raw'>;
+
+export type Middleware = (message: MIDIMessage) => MIDIMessage | MIDIMessage[] | null;
+
+/**
+ * Run a message through a middleware chain.
+ * @returns The messages left at the end of the chain
+ */
+export function applyMiddleware(middleware: Middleware[], message: MIDIMessage): MIDIMessage[] {
+  return middleware.reduce<MIDIMessage[]>(
+    (messages, stage) => messages.flatMap(current => stage(current) ?? []),
+    [message],
+  );
+}
+
+/**
+ * Get the command of a message, or null if it is not a supported message
+ */
+export function getMessageType(raw: Uint8Array): Command | SystemCommand | null {
+  return commandTable[raw[0]] ?? systemCommandTable[raw[0]] ?? null;
+}
+
+/**
+ * Transpose note messages. Notes moved outside of 0-127 are dropped.
+ *
+ * @param semitones - Number of semitones to move notes by
+ *
+ * @example
+ * ```typescript
+ * HuMIDI.use(transpose(12)); // play an octave up
+ * ```
+ */
+export function transpose(semitones: number): Middleware {
+  return message => {
+    if (!isNoteMessage(message.raw)) return message;
+
+    const note = message.raw[1] + semitones;
+    if (note < 0 || note > 127) return null;
+
+    return withData(message, 1, note);
+  };
+}
+
+/**
+ * Move channel messages to other channels.
+ *
+ * @param mapping - Target channel for each source channel, or a function returning it.
+ * Channels without a target are left unchanged.
+ *
+ * @example
+ * ```typescript
+ * HuMIDI.use(remapChannel({ 0: 9 })); // play drums from channel 0
+ * ```
+ */
+export function remapChannel(mapping: Record<number, number> | ((channel: number) => number)): Middleware {
+  return message => {
+    const command = commandTable[message.raw[0]];
+    if (command === undefined) return message;
+
+    const channel = message.raw[0] - commandIndex[command];
+    const target = typeof mapping === 'function' ? mapping(channel) : mapping[channel] ?? channel;
+    return withData(message, 0, commandIndex[command] + (target & 0x0f));
+  };
+}
+
+/**
+ * Scale note on velocities. Results are clamped to 1-127 so notes stay note ons.
+ *
+ * @param scale - Factor to multiply velocities by, or a function mapping them
+ *
+ * @example
+ * ```typescript
+ * HuMIDI.use(scaleVelocity(0.5));
+ * ```
+ */
+export function scaleVelocity(scale: number | ((velocity: number) => number)): Middleware {
+  return message => {
+    const [status, , velocity] = message.raw;
+    if (commandTable[status] !== Commands.NOTE_ON || !velocity) return message;
+
+    const scaled = typeof scale === 'function' ? scale(velocity) : velocity * scale;
+    return withData(message, 2, Math.min(127, Math.max(1, Math.round(scaled))));
+  };
+}
+
+/**
+ * Drop note messages outside a range of notes.
+ *
+ * @param low - Lowest note to keep (0-127)
+ * @param high - Highest note to keep (0-127)
+ *
+ * @example
+ * ```typescript
+ * HuMIDI.use(noteRange(48, 72)); // only the middle two octaves
+ * ```
+ */
+export function noteRange(low: number, high: number): Middleware {
+  return message => {
+    if (!isNoteMessage(message.raw)) return message;
+
+    const note = message.raw[1];
+    return note >= low && note <= high ? message : null;
+  };
+}
+
+/**
+ * Keep or drop messages by type.
+ *
+ * @param types - Message types, e.g. `['noteon', 'noteoff']`
+ * @param exclude - Drop the given types instead of keeping only them
+ *
+ * @example
+ * ```typescript
+ * HuMIDI.use(filterTypes(['clock', 'polyaftertouch'], true));
+ * ```
+ */
+export function filterTypes(types: Array<Command | SystemCommand>, exclude = false): Middleware {
+  const typeSet = new Set(types);
+  return message => {
+    const type = getMessageType(message.raw);
+    const isListed = type !== null && typeSet.has(type);
+    return isListed !== exclude ? message : null;
+  };
+}
+
+function isNoteMessage(raw: Uint8Array): boolean {
+  const command = commandTable[raw[0]];
+  return command === Commands.NOTE_ON
+    || command === Commands.NOTE_OFF
+    || command === Commands.POLY_AFTERTOUCH;
+}
+
+function withData(message: MIDIMessage, index: number, value: number): MIDIMessage {
+  const raw = Uint8Array.from(message.raw);
+  raw[index] = value;
+  return { ...message, raw };
+}
@@ -0,0 +1,551 @@
+/**
+ * Standard MIDI File parsing
+ *
+ * Reads format 0, 1 and 2 files into tracks of timed events that use the same
+ * payload types as live MIDI events. Event timestamps are in milliseconds from
+ * the start of the song, computed from the file's tempo map.
+ *
+ * ref: https://midi.org/standard-midi-files-specification
+**/
+
+import { Commands, commandIndex, commandTable } from './commands';
+import { ControlCommands, controlCommandTable } from './controlCommands';
+import { DEFAULT_PITCH_BEND_RANGE } from './controlDecoder';
+import { SYSEX_START, parseSysEx } from './sysex';
+
+import type {
+  ChannelPressureEvent,
+  ControlChangeEvent,
+  MIDIMessageMetadata,
+  NoteOffEvent,
+  NoteOnEvent,
+  PitchBendEvent,
+  PolyAftertouchEvent,
+  ProgramChangeEvent,
+  SustainEvent,
+  SysExEvent,
+} from './humidi';
+import type { ValueOf } from './utils';
+
+export const MetaEvents = {
+  SEQUENCE_NUMBER: 'sequencenumber',
+  TEXT: 'text',
+  COPYRIGHT: 'copyright',
+  TRACK_NAME: 'trackname',
+  INSTRUMENT_NAME: 'instrumentname',
+  LYRIC: 'lyric',
+  MARKER: 'marker',
+  CUE_POINT: 'cuepoint',
+  CHANNEL_PREFIX: 'channelprefix',
+  PORT: 'port',
+  END_OF_TRACK: 'endoftrack',
+  TEMPO: 'tempo',
+  SMPTE_OFFSET: 'smpteoffset',
+  TIME_SIGNATURE: 'timesignature',
+  KEY_SIGNATURE: 'keysignature',
+  SEQUENCER_SPECIFIC: 'sequencerspecific',
+} as const;
+
+export type MetaEventName = ValueOf<typeof MetaEvents>;
+
+export const metaEventTable: Record<number, MetaEventName> = {
+  0x00: MetaEvents.SEQUENCE_NUMBER,
+  0x01: MetaEvents.TEXT,
+  0x02: MetaEvents.COPYRIGHT,
+  0x03: MetaEvents.TRACK_NAME,
+  0x04: MetaEvents.INSTRUMENT_NAME,
+  0x05: MetaEvents.LYRIC,
+  0x06: MetaEvents.MARKER,
+  0x07: MetaEvents.CUE_POINT,
+  0x20: MetaEvents.CHANNEL_PREFIX,
+  0x21: MetaEvents.PORT,
+  0x2f: MetaEvents.END_OF_TRACK,
+  0x51: MetaEvents.TEMPO,
+  0x54: MetaEvents.SMPTE_OFFSET,
+  0x58: MetaEvents.TIME_SIGNATURE,
+  0x59: MetaEvents.KEY_SIGNATURE,
+  0x7f: MetaEvents.SEQUENCER_SPECIFIC,
+};
+
+export const metaEventIndex: Record<MetaEventName, number> = {
+  [MetaEvents.SEQUENCE_NUMBER]: 0x00,
+  [MetaEvents.TEXT]: 0x01,
+  [MetaEvents.COPYRIGHT]: 0x02,
+  [MetaEvents.TRACK_NAME]: 0x03,
+  [MetaEvents.INSTRUMENT_NAME]: 0x04,
+  [MetaEvents.LYRIC]: 0x05,
+  [MetaEvents.MARKER]: 0x06,
+  [MetaEvents.CUE_POINT]: 0x07,
+  [MetaEvents.CHANNEL_PREFIX]: 0x20,
+  [MetaEvents.PORT]: 0x21,
+  [MetaEvents.END_OF_TRACK]: 0x2f,
+  [MetaEvents.TEMPO]: 0x51,
+  [MetaEvents.SMPTE_OFFSET]: 0x54,
+  [MetaEvents.TIME_SIGNATURE]: 0x58,
+  [MetaEvents.KEY_SIGNATURE]: 0x59,
+  [MetaEvents.SEQUENCER_SPECIFIC]: 0x7f,
+};
+
+/** Meta event types 0x01-0x0F carry text */
+const MAX_TEXT_META_TYPE = 0x0f;
+export const META_EVENT = 0xff;
+const SYSEX_ESCAPE = 0xf7;
+/** Tempo assumed until the first tempo event: 120 beats per minute */
+export const DEFAULT_TEMPO = 500000;
+
+/**
+ * Event data for meta events, which only exist in MIDI files
+ */
+export type MetaEvent = MIDIMessageMetadata & {
+  /** Meta event type byte */
+  metaType: number;
+  /** Standard name of the meta event, or null for unknown types */
+  name: MetaEventName | null;
+  /** Meta event payload */
+  data: Uint8Array;
+  /** Decoded payload of text meta events */
+  text?: string;
+};
+
+type FileEvent<T extends string, E> = E & {
+  type: T;
+  /** Position in ticks from the start of the track */
+  tick: number;
+  /** Position in seconds from the start of the track */
+  time: number;
+};
+
+/**
+ * A timed event in a MIDI file track. Sustain pedal messages are reported as
+ * `sustainon`/`sustainoff` instead of `controlchange`, and note on messages with
+ * zero velocity as `noteoff`. Note events are not tagged with zones, and pitch bends
+ * are reported in semitones at the default range of 2.
+ */
+export type MIDIFileEvent =
+  | FileEvent<typeof Commands.NOTE_ON, NoteOnEvent>
+  | FileEvent<typeof Commands.NOTE_OFF, NoteOffEvent>
+  | FileEvent<typeof Commands.PITCH_BEND, PitchBendEvent>
+  | FileEvent<typeof Commands.CONTROL_CHANGE, ControlChangeEvent>
+  | FileEvent<typeof Commands.PROGRAM_CHANGE, ProgramChangeEvent>
+  | FileEvent<typeof Commands.CHANNEL_PRESSURE, ChannelPressureEvent>
+  | FileEvent<typeof Commands.POLY_AFTERTOUCH, PolyAftertouchEvent>
+  | FileEvent<'sustainon' | 'sustainoff', SustainEvent>
+  | FileEvent<'sysex', SysExEvent>
+  | FileEvent<'meta', MetaEvent>;
+
+/**
+ * A tempo change in the tempo map
+ */
+export type TempoChange = {
+  tick: number;
+  /** Position in seconds */
+  time: number;
+  microsecondsPerBeat: number;
+  bpm: number;
+};
+
+/**
+ * A time signature change
+ */
+export type TimeSignature = {
+  tick: number;
+  /** Position in seconds */
+  time: number;
+  numerator: number;
+  denominator: number;
+  /** MIDI clocks per metronome click */
+  clocksPerClick: number;
+  /** Notated 32nd notes per quarter note */
+  thirtySecondNotesPerBeat: number;
+};
+
+export type MIDIFileTrack = {
+  /** Name from the track name meta event, or null if the track has none */
+  name: string | null;
+  events: MIDIFileEvent[];
+  /** Track length in seconds */
+  duration: number;
+};
+
+export type MIDIFile = {
+  /** 0: single track, 1: simultaneous tracks, 2: independent sequences */
+  format: 0 | 1 | 2;
+  /** Ticks per quarter note, or null for SMPTE timed files */
+  ticksPerBeat: number | null;
+  /** Frames per second and ticks per frame of SMPTE timed files, otherwise null */
+  smpte: { framesPerSecond: number; ticksPerFrame: number } | null;
+  tracks: MIDIFileTrack[];
+  /** Tempo map, always starting at tick 0. Format 2 files use the first track's tempo map. */
+  tempos: TempoChange[];
+  timeSignatures: TimeSignature[];
+  /** Length of the longest track in seconds */
+  duration: number;
+};
+
+type TrackChunk = {
+  name: string | null;
+  events: FileEvent<string, MIDIMessageMetadata>[];
+};
+
+/**
+ * Parse a Standard MIDI File.
+ *
+ * @param data - Contents of a `.mid` file
+ * @returns The parsed file, with event times resolved through its tempo map
+ * @throws {Error} When the data is not a valid Standard MIDI File
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/songs/minuet.mid');
+ * const song = parseMIDIFile(await response.arrayBuffer());
+ *
+ * song.tracks[1].events
+ *   .filter(event => event.type === 'noteon')
+ *   .forEach(event => console.log(event.note, event.time));
+ * ```
+ */
+export function parseMIDIFile(data: ArrayBuffer | Uint8Array): MIDIFile {
+  const reader = new ByteReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  if (reader.readString(4) !== 'MThd') {
+    throw new Error('Invalid MIDI file: missing header chunk');
+  }
+  const headerLength = reader.readUint32();
+  const headerEnd = reader.position + headerLength;
+  const format = reader.readUint16();
+  const trackCount = reader.readUint16();
+  const division = reader.readUint16();
+  reader.position = headerEnd;
+
+  if (format !== 0 && format !== 1 && format !== 2) {
+    throw new Error(`Invalid MIDI file: unsupported format ${format}`);
+  }
+
+  const smpte = division & 0x8000
+    ? { framesPerSecond: getFramesPerSecond(division), ticksPerFrame: division & 0xff }
+    : null;
+  const ticksPerBeat = smpte ? null : division;
+  if (ticksPerBeat === 0 || smpte?.ticksPerFrame === 0) {
+    throw new Error('Invalid MIDI file: division of 0 ticks');
+  }
+
+  const chunks: TrackChunk[] = [];
+  while (chunks.length < trackCount && reader.remaining >= 8) {
+    const type = reader.readString(4);
+    const length = reader.readUint32();
+    const end = Math.min(reader.position + length, reader.length);
+    if (type === 'MTrk') {
+      chunks.push(readTrack(reader, end));
+    }
+    reader.position = end;
+  }
+
+  // Tempo events in any track of a format 0/1 file apply to the whole song
+  const tempoChunks = format === 2 ? chunks.slice(0, 1) : chunks;
+  const tempoEvents = tempoChunks.flatMap(chunk => chunk.events);
+
+  const tracks = chunks.map(chunk => {
+    const trackTempoEvents = format === 2 ? chunk.events : tempoEvents;
+    const tempos = createTempoMap(trackTempoEvents, ticksPerBeat);
+    return resolveTrack(chunk, tempos, ticksPerBeat, smpte);
+  });
+
+  const tempos = createTempoMap(tempoEvents, ticksPerBeat);
+  const timeSignatures = tempoEvents
+    .filter((event): event is FileEvent<'meta', MetaEvent> => isMeta(event, metaEventIndex[MetaEvents.TIME_SIGNATURE]))
+    .sort((a, b) => a.tick - b.tick)
+    .map(({ tick, data }) => ({
+      tick,
+      time: ticksToSeconds(tick, tempos, ticksPerBeat, smpte),
+      numerator: data[0],
+      denominator: 2 ** data[1],
+      clocksPerClick: data[2],
+      thirtySecondNotesPerBeat: data[3],
+    }));
+
+  return {
+    format,
+    ticksPerBeat,
+    smpte,
+    tracks,
+    tempos,
+    timeSignatures,
+    duration: Math.max(0, ...tracks.map(track => track.duration)),
+  };
+}
+
+/**
+ * Convert a tick position to seconds.
+ *
+ * @param tick - Position in ticks
+ * @param tempos - Tempo map, sorted by tick and starting at tick 0
+ * @param ticksPerBeat - Ticks per quarter note, or null for SMPTE timing
+ * @param smpte - SMPTE timing of the file, used when ticksPerBeat is null
+ */
+export function ticksToSeconds(
+  tick: number,
+  tempos: TempoChange[],
+  ticksPerBeat: number | null,
+  smpte: MIDIFile['smpte'] = null,
+): number {
+  if (ticksPerBeat === null) {
+    return smpte
+      ? tick / (smpte.framesPerSecond * smpte.ticksPerFrame)
+      : 0;
+  }
+
+  let tempo: TempoChange = tempos[0] ?? getTempoChange(0, 0, DEFAULT_TEMPO);
+  for (const change of tempos) {
+    if (change.tick > tick) break;
+    tempo = change;
+  }
+
+  return tempo.time + (tick - tempo.tick) * tempo.microsecondsPerBeat / 1e6 / ticksPerBeat;
+}
+
+function readTrack(reader: ByteReader, end: number): TrackChunk {
+  const events: TrackChunk['events'] = [];
+  let name: string | null = null;
+  let tick = 0;
+  let runningStatus: number | null = null;
+
+  while (reader.position < end) {
+    tick += reader.readVariableLength();
+
+    let status = reader.peekUint8();
+    if (status < 0x80) {
+      if (runningStatus === null) {
+        throw new Error(`Invalid MIDI file: data byte without status at offset ${reader.position}`);
+      }
+      status = runningStatus;
+    } else {
+      reader.position++;
+    }
+
+    if (status === META_EVENT) {
+      const metaType = reader.readUint8();
+      const data = reader.readBytes(reader.readVariableLength());
+      const meta = createMetaEvent(metaType, data, tick);
+      if (meta.name === MetaEvents.TRACK_NAME && name === null) {
+        name = meta.text ?? null;
+      }
+      events.push(meta);
+      if (metaType === metaEventIndex[MetaEvents.END_OF_TRACK]) break;
+      continue;
+    }
+
+    if (status === SYSEX_START || status === SYSEX_ESCAPE) {
+      const data = reader.readBytes(reader.readVariableLength());
+      const raw = status === SYSEX_START
+        ? Uint8Array.from([SYSEX_START, ...data])
+        : data;
+      const message = parseSysEx(raw);
+      if (message) {
+        events.push({ ...createMetadata(-1, raw), ...message, type: 'sysex', tick, time: 0 });
+      }
+      continue;
+    }
+
+    runningStatus = status;
+    const command = commandTable[status];
+    if (command === undefined) {
+      throw new Error(`Invalid MIDI file: unexpected status byte ${status} at offset ${reader.position}`);
+    }
+    const dataLength = command === Commands.PROGRAM_CHANGE || command === Commands.CHANNEL_PRESSURE ? 1 : 2;
+    const data = Array.from(reader.readBytes(dataLength));
+    events.push({ ...createChannelEvent(status, data), tick, time: 0 });
+  }
+
+  return { name, events };
+}
+
+function createChannelEvent(status: number, data: number[]): FileEvent<string, MIDIMessageMetadata> {
+  const command = commandTable[status];
+  const channel = status - commandIndex[command];
+  const metadata = createMetadata(channel, Uint8Array.from([status, ...data]));
+  const [data1, data2 = 0] = data;
+
+  switch (command) {
+    case Commands.NOTE_ON:
+      return data2 === 0
+        ? { ...metadata, type: Commands.NOTE_OFF, note: data1, sustained: false, zones: [] as string[] } as MIDIFileEvent
+        : { ...metadata, type: Commands.NOTE_ON, note: data1, velocity: data2, mappedVelocity: data2, zones: [] as string[] } as MIDIFileEvent;
+    case Commands.NOTE_OFF:
+      return { ...metadata, type: Commands.NOTE_OFF, note: data1, sustained: false, zones: [] as string[] } as MIDIFileEvent;
+    case Commands.PITCH_BEND: {
+      const rawValue = (data2 << 7) + data1;
+      const value = (rawValue - 8192) / 8192;
+      return {
+        ...metadata,
+        type: Commands.PITCH_BEND,
+        value,
+        rawValue,
+        semitones: value * DEFAULT_PITCH_BEND_RANGE,
+      } as MIDIFileEvent;
+    }
+    case Commands.PROGRAM_CHANGE:
+      return { ...metadata, type: Commands.PROGRAM_CHANGE, program: data1 } as MIDIFileEvent;
+    case Commands.CHANNEL_PRESSURE:
+      return { ...metadata, type: Commands.CHANNEL_PRESSURE, pressure: data1, value: data1 / 127 } as MIDIFileEvent;
+    case Commands.POLY_AFTERTOUCH:
+      return {
+        ...metadata,
+        type: Commands.POLY_AFTERTOUCH,
+        note: data1,
+        pressure: data2,
+        value: data2 / 127,
+      } as MIDIFileEvent;
+    case Commands.CONTROL_CHANGE: {
+      const name = controlCommandTable[data1] ?? null;
+      if (name === ControlCommands.SUSTAIN) {
+        return { ...metadata, type: data2 >= 64 ? 'sustainon' : 'sustainoff', value: data2 } as MIDIFileEvent;
+      }
+      return { ...metadata, type: Commands.CONTROL_CHANGE, controller: data1, value: data2, name } as MIDIFileEvent;
+    }
+  }
+}
+
+function createMetaEvent(metaType: number, data: Uint8Array, tick: number): FileEvent<'meta', MetaEvent> {
+  const raw = Uint8Array.from([META_EVENT, metaType, ...encodeVariableLength(data.length), ...data]);
+  const meta: FileEvent<'meta', MetaEvent> = {
+    ...createMetadata(-1, raw),
+    type: 'meta',
+    tick,
+    time: 0,
+    metaType,
+    name: metaEventTable[metaType] ?? null,
+    data,
+  };
+  if (metaType > 0 && metaType <= MAX_TEXT_META_TYPE) {
+    meta.text = new TextDecoder().decode(data);
+  }
+  return meta;
+}
+
+function createMetadata(channel: number, raw: Uint8Array): MIDIMessageMetadata {
+  return { timestamp: 0, channel, input: null, raw };
+}
+
+function resolveTrack(
+  chunk: TrackChunk,
+  tempos: TempoChange[],
+  ticksPerBeat: number | null,
+  smpte: MIDIFile['smpte'],
+): MIDIFileTrack {
+  const events = chunk.events.map(event => {
+    const time = ticksToSeconds(event.tick, tempos, ticksPerBeat, smpte);
+    return { ...event, time, timestamp: time * 1000 } as MIDIFileEvent;
+  });
+
+  return {
+    name: chunk.name,
+    events,
+    duration: events.length ? events[events.length - 1].time : 0,
+  };
+}
+
+function createTempoMap(events: FileEvent<string, MIDIMessageMetadata>[], ticksPerBeat: number | null): TempoChange[] {
+  const changes = events
+    .filter((event): event is FileEvent<'meta', MetaEvent> => isMeta(event, metaEventIndex[MetaEvents.TEMPO]))
+    .map(({ tick, data }) => ({ tick, microsecondsPerBeat: (data[0] << 16) + (data[1] << 8) + data[2] }))
+    .sort((a, b) => a.tick - b.tick);
+
+  const tempos = [getTempoChange(0, 0, DEFAULT_TEMPO)];
+  for (const { tick, microsecondsPerBeat } of changes) {
+    const previous = tempos[tempos.length - 1];
+    const time = ticksToSeconds(tick, tempos, ticksPerBeat);
+    if (previous.tick === tick) {
+      tempos[tempos.length - 1] = getTempoChange(tick, previous.time, microsecondsPerBeat);
+    } else {
+      tempos.push(getTempoChange(tick, time, microsecondsPerBeat));
+    }
+  }
+
+  return tempos;
+}
+
+function getTempoChange(tick: number, time: number, microsecondsPerBeat: number): TempoChange {
+  return { tick, time, microsecondsPerBeat, bpm: 60e6 / microsecondsPerBeat };
+}
+
+function isMeta(event: FileEvent<string, MIDIMessageMetadata>, metaType: number): boolean {
+  return event.type === 'meta' && (event as FileEvent<'meta', MetaEvent>).metaType === metaType;
+}
+
+function getFramesPerSecond(division: number): number {
+  // The upper byte holds the negative frame rate, where 29 means 29.97 drop frame
+  const frames = 256 - (division >> 8);
+  return frames === 29 ? 29.97 : frames;
+}
+
+export function encodeVariableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+class ByteReader {
+  public position = 0;
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  public get length(): number {
+    return this.bytes.length;
+  }
+
+  public get remaining(): number {
+    return this.bytes.length - this.position;
+  }
+
+  public peekUint8(): number {
+    this.assertAvailable(1);
+    return this.bytes[this.position];
+  }
+
+  public readUint8(): number {
+    this.assertAvailable(1);
+    return this.bytes[this.position++];
+  }
+
+  public readUint16(): number {
+    return (this.readUint8() << 8) + this.readUint8();
+  }
+
+  public readUint32(): number {
+    return this.readUint16() * 0x10000 + this.readUint16();
+  }
+
+  public readVariableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.readUint8();
+      value = (value << 7) + (byte & 0x7f);
+      if (!(byte & 0x80)) {
+        return value;
+      }
+    }
+    throw new Error(`Invalid MIDI file: variable length quantity too long at offset ${this.position}`);
+  }
+
+  public readBytes(length: number): Uint8Array {
+    this.assertAvailable(length);
+    const bytes = this.bytes.slice(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+
+  public readString(length: number): string {
+    return String.fromCharCode(...this.readBytes(length));
+  }
+
+  private assertAvailable(length: number) {
+    if (this.position + length > this.bytes.length) {
+      throw new Error('Invalid MIDI file: unexpected end of data');
+    }
+  }
+}
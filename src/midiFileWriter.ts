@@ -0,0 +1,204 @@
+/**
+ * Standard MIDI File writing
+ *
+ * Writes HuMIDI events to format 0 or format 1 files. Events are placed by their
+ * timestamps at a constant tempo and quantized to the file's tick resolution.
+ *
+ * ref: https://midi.org/standard-midi-files-specification
+**/
+
+import {
+  DEFAULT_TEMPO,
+  META_EVENT,
+  MetaEvents,
+  encodeVariableLength,
+  metaEventIndex,
+} from './midiFile';
+import { SYSEX_START } from './sysex';
+
+import type { MIDIMessageMetadata } from './humidi';
+import type { MetaEventName } from './midiFile';
+
+/**
+ * Any HuMIDI event, or an event parsed from a MIDI file
+ */
+export type WritableEvent = Pick<MIDIMessageMetadata, 'timestamp' | 'raw'>;
+
+export type WritableTrack = {
+  name?: string;
+  events: WritableEvent[];
+};
+
+export type MIDIFileWriteOptions = {
+  /** 0 merges everything into one track, 1 writes a tempo track followed by each track.
+   * Defaults to 1 when more than one track is given, 0 otherwise. */
+  format?: 0 | 1;
+  /** Tick resolution in pulses per quarter note, defaults to 480 */
+  ticksPerBeat?: number;
+  /** Tempo in beats per minute, defaults to 120 */
+  bpm?: number;
+  /** Time signature, defaults to 4/4 */
+  timeSignature?: { numerator: number; denominator: number };
+  /** Song name, written as the name of the first track */
+  name?: string;
+  /** Timestamp in milliseconds that becomes the start of the file, defaults to the earliest event */
+  startTime?: number;
+};
+
+const DEFAULT_TICKS_PER_BEAT = 480;
+const CLOCKS_PER_CLICK = 24;
+const THIRTY_SECOND_NOTES_PER_BEAT = 8;
+
+/**
+ * Meta events that are written from the options rather than copied from the
+ * input, since event timestamps are already resolved to milliseconds
+ */
+const replacedMetaTypes = [
+  metaEventIndex[MetaEvents.END_OF_TRACK],
+  metaEventIndex[MetaEvents.TEMPO],
+  metaEventIndex[MetaEvents.TIME_SIGNATURE],
+];
+
+type TrackEvent = {
+  tick: number;
+  bytes: number[];
+};
+
+/**
+ * Write a Standard MIDI File.
+ *
+ * @param input - Events for a single track, or a list of tracks
+ * @param options - File format, resolution, tempo and naming options
+ * @returns Contents of a `.mid` file
+ *
+ * @example
+ * ```typescript
+ * const played: WritableEvent[] = [];
+ * HuMIDI.on('noteon', event => played.push(event));
+ * HuMIDI.on('noteoff', event => played.push(event));
+ *
+ * // later
+ * const file = writeMIDIFile(played, { bpm: 90, name: 'Practice' });
+ * const url = URL.createObjectURL(new Blob([file], { type: 'audio/midi' }));
+ * ```
+ */
+export function writeMIDIFile(
+  input: WritableEvent[] | WritableTrack[],
+  options: MIDIFileWriteOptions = {},
+): Uint8Array {
+  const tracks = isTrackList(input) ? input : [{ events: input }];
+  const format = options.format ?? (tracks.length > 1 ? 1 : 0);
+  const ticksPerBeat = options.ticksPerBeat ?? DEFAULT_TICKS_PER_BEAT;
+  const bpm = options.bpm ?? 60e6 / DEFAULT_TEMPO;
+  const startTime = options.startTime ?? tracks.reduce(
+    (earliest, track) => track.events.reduce((min, event) => Math.min(min, event.timestamp), earliest),
+    Infinity,
+  );
+  const ticksPerMillisecond = bpm / 60000 * ticksPerBeat;
+
+  const toTrackEvents = (track: WritableTrack) => track.events
+    .map(event => ({
+      tick: Math.max(0, Math.round((event.timestamp - startTime) * ticksPerMillisecond)),
+      bytes: encodeEvent(event.raw),
+    }))
+    .filter(event => event.bytes.length > 0);
+
+  const conductorEvents = [
+    ...(options.name !== undefined ? [createMetaEvent(MetaEvents.TRACK_NAME, encodeText(options.name))] : []),
+    createMetaEvent(MetaEvents.TEMPO, encodeTempo(bpm)),
+    createMetaEvent(MetaEvents.TIME_SIGNATURE, encodeTimeSignature(options.timeSignature)),
+  ];
+
+  const chunks = format === 0
+    ? [[...conductorEvents, ...tracks.flatMap(toTrackEvents)]]
+    : [
+      conductorEvents,
+      ...tracks.map(track => [
+        ...(track.name !== undefined ? [createMetaEvent(MetaEvents.TRACK_NAME, encodeText(track.name))] : []),
+        ...toTrackEvents(track),
+      ]),
+    ];
+
+  const bytes = [
+    ...createChunk('MThd', [
+      ...toUint16(format),
+      ...toUint16(chunks.length),
+      ...toUint16(ticksPerBeat),
+    ]),
+    ...chunks.flatMap(events => createChunk('MTrk', encodeTrack(events))),
+  ];
+
+  return Uint8Array.from(bytes);
+}
+
+function isTrackList(input: WritableEvent[] | WritableTrack[]): input is WritableTrack[] {
+  return input.length > 0 && 'events' in input[0];
+}
+
+function encodeEvent(raw: Uint8Array): number[] {
+  const status = raw[0];
+  if (status === SYSEX_START) {
+    return [SYSEX_START, ...encodeVariableLength(raw.length - 1), ...raw.slice(1)];
+  }
+
+  if (status === META_EVENT) {
+    return replacedMetaTypes.includes(raw[1]) ? [] : Array.from(raw);
+  }
+
+  // System common and real time messages can't be stored in a file
+  return status >= 0x80 && status < 0xf0 ? Array.from(raw) : [];
+}
+
+function encodeTrack(events: TrackEvent[]): number[] {
+  const sorted = events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.tick - b.event.tick || a.index - b.index)
+    .map(({ event }) => event);
+  const endTick = sorted.length ? sorted[sorted.length - 1].tick : 0;
+
+  let previousTick = 0;
+  const bytes: number[] = [];
+  for (const { tick, bytes: eventBytes } of [...sorted, createMetaEvent(MetaEvents.END_OF_TRACK, [], endTick)]) {
+    bytes.push(...encodeVariableLength(tick - previousTick), ...eventBytes);
+    previousTick = tick;
+  }
+  return bytes;
+}
+
+function createMetaEvent(name: MetaEventName, data: number[], tick = 0): TrackEvent {
+  return {
+    tick,
+    bytes: [META_EVENT, metaEventIndex[name], ...encodeVariableLength(data.length), ...data],
+  };
+}
+
+function encodeText(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function encodeTempo(bpm: number): number[] {
+  const microsecondsPerBeat = Math.round(60e6 / bpm);
+  return [(microsecondsPerBeat >> 16) & 0xff, (microsecondsPerBeat >> 8) & 0xff, microsecondsPerBeat & 0xff];
+}
+
+function encodeTimeSignature(timeSignature = { numerator: 4, denominator: 4 }): number[] {
+  return [
+    timeSignature.numerator,
+    Math.round(Math.log2(timeSignature.denominator)),
+    CLOCKS_PER_CLICK,
+    THIRTY_SECOND_NOTES_PER_BEAT,
+  ];
+}
+
+function createChunk(type: string, data: number[]): number[] {
+  return [
+    ...Array.from(type, char => char.charCodeAt(0)),
+    ...toUint16(data.length >>> 16),
+    ...toUint16(data.length & 0xffff),
+    ...data,
+  ];
+}
+
+function toUint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
@@ -0,0 +1,139 @@
+/**
+ * MIDI Polyphonic Expression (MPE)
+ *
+ * An MPE controller plays every note on its own member channel, so channel
+ * messages (pitch bend, CC 74 timbre and channel pressure) shape a single note.
+ * Member channels are grouped in zones: the lower zone is managed from channel 0
+ * and takes member channels upward from 1, the upper zone is managed from
+ * channel 15 and takes member channels downward from 14. Messages on a manager
+ * channel apply to every note in its zone.
+ *
+ * ref: https://midi.org/mpe-midi-polyphonic-expression
+**/
+
+import type { ValueOf } from './utils';
+
+export const MPEZoneTypes = {
+  LOWER: 'lower',
+  UPPER: 'upper',
+} as const;
+
+export type MPEZoneType = ValueOf<typeof MPEZoneTypes>;
+
+export type MPEZone = {
+  type: MPEZoneType;
+  /** Channel carrying messages for the whole zone: 0 for the lower zone, 15 for the upper zone */
+  managerChannel: number;
+  /** Channels carrying one note each, nearest to the manager channel first */
+  memberChannels: number[];
+};
+
+/**
+ * Number of member channels in each zone. A zone left out or given 0 members is disabled.
+ */
+export type MPEConfiguration = {
+  /** Member channels of the lower zone (0-15) */
+  lower?: number;
+  /** Member channels of the upper zone (0-15) */
+  upper?: number;
+};
+
+/**
+ * Pitch bend range of member channels until the controller sends another
+ */
+export const DEFAULT_MEMBER_PITCH_BEND_RANGE = 48;
+
+/**
+ * Pitch bend range of manager channels until the controller sends another
+ */
+export const DEFAULT_MANAGER_PITCH_BEND_RANGE = 2;
+
+const LOWER_MANAGER_CHANNEL = 0;
+const UPPER_MANAGER_CHANNEL = 15;
+const MAX_MEMBER_CHANNELS = 15;
+
+/**
+ * Get the zone type managed from a channel
+ *
+ * @param channel - MIDI channel (0-15)
+ * @returns The zone type, or null if the channel can't manage a zone
+ */
+export function getManagedZoneType(channel: number): MPEZoneType | null {
+  switch (channel) {
+    case LOWER_MANAGER_CHANNEL:
+      return MPEZoneTypes.LOWER;
+    case UPPER_MANAGER_CHANNEL:
+      return MPEZoneTypes.UPPER;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Configure a zone the way an MPE Configuration Message (RPN 6) does. When the
+ * zone would overlap the other zone, the other zone shrinks to make room, and is
+ * disabled if no member channels are left.
+ *
+ * @param zones - Current zones
+ * @param type - Zone to configure
+ * @param memberCount - Number of member channels (0-15), 0 to disable the zone
+ * @returns The new zones, lower zone first
+ */
+export function configureMPEZone(zones: MPEZone[], type: MPEZoneType, memberCount: number): MPEZone[] {
+  const count = clampMemberCount(memberCount);
+  const other = zones.find(zone => zone.type !== type);
+  // channels 0 and 15 stay reserved for the managers
+  const otherCount = Math.max(0, Math.min(other?.memberChannels.length ?? 0, MAX_MEMBER_CHANNELS - 1 - count));
+
+  const counts = type === MPEZoneTypes.LOWER
+    ? { lower: count, upper: otherCount }
+    : { lower: otherCount, upper: count };
+  return createMPEZones(counts);
+}
+
+/**
+ * Create the zones of a configuration. Overlapping zones are resolved as if the
+ * lower zone was configured first.
+ *
+ * @param configuration - Member channel counts
+ * @returns The enabled zones, lower zone first
+ */
+export function createMPEZones(configuration: MPEConfiguration): MPEZone[] {
+  const lower = clampMemberCount(configuration.lower);
+  const upper = clampMemberCount(configuration.upper);
+  if (lower > 0 && upper > 0 && lower + upper >= MAX_MEMBER_CHANNELS) {
+    return configureMPEZone(createMPEZones({ lower }), MPEZoneTypes.UPPER, upper);
+  }
+
+  const zones: MPEZone[] = [];
+  if (lower > 0) {
+    zones.push({
+      type: MPEZoneTypes.LOWER,
+      managerChannel: LOWER_MANAGER_CHANNEL,
+      memberChannels: Array.from({ length: lower }, (_value, index) => LOWER_MANAGER_CHANNEL + 1 + index),
+    });
+  }
+  if (upper > 0) {
+    zones.push({
+      type: MPEZoneTypes.UPPER,
+      managerChannel: UPPER_MANAGER_CHANNEL,
+      memberChannels: Array.from({ length: upper }, (_value, index) => UPPER_MANAGER_CHANNEL - 1 - index),
+    });
+  }
+  return zones;
+}
+
+/**
+ * Find the zone a channel belongs to, as its manager or one of its members
+ *
+ * @param zones - Current zones
+ * @param channel - MIDI channel (0-15)
+ * @returns The zone, or null if the channel is outside every zone
+ */
+export function findMPEZone(zones: MPEZone[], channel: number): MPEZone | null {
+  return zones.find(zone => zone.managerChannel === channel || zone.memberChannels.includes(channel)) ?? null;
+}
+
+function clampMemberCount(memberCount = 0): number {
+  return Math.min(MAX_MEMBER_CHANNELS, Math.max(0, Math.round(memberCount)));
+}
@@ -0,0 +1,389 @@
+import HuMIDI from './humidi';
+import { Commands, commandIndex, commandTable } from './commands';
+import { ControlCommands, controlCommandIndex, controlCommandTable } from './controlCommands';
+import { createControlChange, createNoteOff } from './messages';
+import { META_EVENT } from './midiFile';
+
+import type { MIDIMessageMetadata, MIDIOutput } from './humidi';
+import type { MIDIFile } from './midiFile';
+import type { ValueOf } from './utils';
+
+export const PlayerState = {
+  STOPPED: 'stopped',
+  PLAYING: 'playing',
+  PAUSED: 'paused',
+} as const;
+
+export type PlayerState = ValueOf<typeof PlayerState>;
+
+/**
+ * A message to play, timed in milliseconds from the start of the sequence.
+ * Recorded events and events parsed from MIDI files can be played as they are.
+ */
+export type PlayableEvent = Pick<MIDIMessageMetadata, 'timestamp'> & {
+  raw: Uint8Array | number[];
+};
+
+/**
+ * The HuMIDI instance, or the HuMIDI class itself, that a player emits events on
+ */
+export type PlayerTarget = Pick<HuMIDI, 'dispatch'>;
+
+/**
+ * Section of the sequence to repeat, in milliseconds
+ */
+export type LoopRange = {
+  start: number;
+  end: number;
+};
+
+export type PlayerOptions = {
+  /** Where played messages are emitted, defaults to the shared HuMIDI instance */
+  target?: PlayerTarget;
+  /** Output device that played messages are also sent to */
+  output?: Pick<MIDIOutput, 'send'> | null;
+  /** Playback speed, where 2 plays twice as fast, defaults to 1 */
+  tempo?: number;
+  /** Repeat the whole sequence, or a section of it */
+  loop?: boolean | LoopRange;
+  /** How far ahead messages are scheduled in milliseconds, defaults to 100 */
+  lookahead?: number;
+  /** How often the scheduler runs in milliseconds, defaults to 25 */
+  interval?: number;
+  /** Called when playback reaches the end of a sequence that doesn't loop */
+  onEnd?: () => void;
+};
+
+const DEFAULT_LOOKAHEAD = 100;
+const DEFAULT_INTERVAL = 25;
+
+/**
+ * Notes and sustain pedals turned on by the player, so they can be released
+ */
+type SoundingState = {
+  notes: Set<number>;
+  sustainedChannels: Set<number>;
+};
+
+/**
+ * Plays sequences of MIDI messages through HuMIDI's event bus, so handlers react
+ * as if the messages were played on a keyboard.
+ *
+ * Messages are scheduled ahead of time on an interval. Positions are derived from
+ * `performance.now()` rather than counted, so a throttled timer in a background tab
+ * only delays messages and never loses or shifts them. Every note the player turned
+ * on is turned off when playback pauses, stops, seeks or loops.
+ *
+ * @example
+ * ```typescript
+ * const song = parseMIDIFile(await response.arrayBuffer());
+ * const player = new Player(song, { output: HuMIDI.getOutputs()[0] });
+ *
+ * HuMIDI.on('noteon', ({ note }) => highlightKey(note));
+ * player.setTempo(0.75);
+ * player.play();
+ * ```
+ */
+export class Player {
+  private readonly target: PlayerTarget;
+  private readonly output: Pick<MIDIOutput, 'send'> | null;
+  private readonly lookahead: number;
+  private readonly interval: number;
+  private readonly onEnd: (() => void) | null;
+  private events: PlayableEvent[] = [];
+  private duration = 0;
+  private state: PlayerState = PlayerState.STOPPED;
+  private tempo: number;
+  private loop: boolean | LoopRange;
+  /** Index of the next event to schedule */
+  private cursor = 0;
+  /** Sequence position at anchorTime */
+  private anchorPosition = 0;
+  private anchorTime = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pendingDispatches: Set<ReturnType<typeof setTimeout>> = new Set();
+  private lastOutputTime = 0;
+  private readonly dispatched: SoundingState = { notes: new Set(), sustainedChannels: new Set() };
+  private readonly scheduled: SoundingState = { notes: new Set(), sustainedChannels: new Set() };
+
+  constructor(sequence: PlayableEvent[] | MIDIFile = [], options: PlayerOptions = {}) {
+    this.target = options.target ?? HuMIDI;
+    this.output = options.output ?? null;
+    this.tempo = options.tempo ?? 1;
+    this.loop = options.loop ?? false;
+    this.lookahead = options.lookahead ?? DEFAULT_LOOKAHEAD;
+    this.interval = options.interval ?? DEFAULT_INTERVAL;
+    this.onEnd = options.onEnd ?? null;
+    this.load(sequence);
+  }
+
+  /**
+   * Replace the sequence, stopping playback.
+   * MIDI files are played with all of their tracks merged.
+   */
+  public load(sequence: PlayableEvent[] | MIDIFile): void {
+    this.stop();
+
+    const events = 'tracks' in sequence
+      ? sequence.tracks.flatMap(track => track.events)
+      : sequence;
+    this.events = events
+      .filter(event => event.raw[0] !== META_EVENT)
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => a.event.timestamp - b.event.timestamp || a.index - b.index)
+      .map(({ event }) => event);
+    this.duration = 'tracks' in sequence
+      ? sequence.duration * 1000
+      : this.events.reduce((end, event) => Math.max(end, event.timestamp), 0);
+  }
+
+  public getState(): PlayerState {
+    return this.state;
+  }
+
+  /**
+   * Length of the sequence in milliseconds
+   */
+  public getDuration(): number {
+    return this.duration;
+  }
+
+  /**
+   * Current position in the sequence in milliseconds
+   */
+  public getPosition(): number {
+    if (this.state !== PlayerState.PLAYING) {
+      return this.anchorPosition;
+    }
+
+    const elapsed = (performance.now() - this.anchorTime) * this.tempo;
+    const loop = this.getLoopRange();
+    // A loop restart is scheduled ahead of time, so the anchor can still be in the future
+    return elapsed < 0 && loop
+      ? loop.end + elapsed
+      : this.anchorPosition + elapsed;
+  }
+
+  public play(): void {
+    if (this.state === PlayerState.PLAYING) return;
+
+    this.anchorTime = performance.now();
+    this.state = PlayerState.PLAYING;
+    this.timer = setInterval(() => this.schedule(), this.interval);
+    this.schedule();
+  }
+
+  /**
+   * Pause playback, turning off every sounding note
+   */
+  public pause(): void {
+    if (this.state !== PlayerState.PLAYING) return;
+
+    this.halt();
+    this.state = PlayerState.PAUSED;
+  }
+
+  /**
+   * Stop playback and return to the start, turning off every sounding note
+   */
+  public stop(): void {
+    this.halt();
+    this.state = PlayerState.STOPPED;
+    this.setPosition(0);
+  }
+
+  /**
+   * Move to a position in the sequence, turning off every sounding note
+   *
+   * @param position - Position in milliseconds
+   */
+  public seek(position: number): void {
+    if (this.state !== PlayerState.PLAYING) {
+      this.setPosition(position);
+      return;
+    }
+
+    this.halt();
+    this.setPosition(position);
+    this.anchorTime = performance.now();
+    this.timer = setInterval(() => this.schedule(), this.interval);
+    this.schedule();
+  }
+
+  /**
+   * Change the playback speed, where 2 plays twice as fast
+   */
+  public setTempo(tempo: number): void {
+    if (tempo <= 0) return;
+
+    if (this.state === PlayerState.PLAYING) {
+      this.anchorPosition = this.getPosition();
+      this.anchorTime = performance.now();
+    }
+    this.tempo = tempo;
+  }
+
+  public getTempo(): number {
+    return this.tempo;
+  }
+
+  /**
+   * Repeat the whole sequence, a section of it, or turn looping off
+   */
+  public setLoop(loop: boolean | LoopRange): void {
+    this.loop = loop;
+  }
+
+  private setPosition(position: number) {
+    this.anchorPosition = Math.max(0, Math.min(position, this.duration));
+    this.cursor = this.findEventIndex(this.anchorPosition);
+  }
+
+  /**
+   * Stop scheduling and release everything the player turned on
+   */
+  private halt() {
+    if (this.state === PlayerState.PLAYING) {
+      this.anchorPosition = Math.max(0, this.getPosition());
+      this.cursor = this.findEventIndex(this.anchorPosition);
+    }
+
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.pendingDispatches.forEach(timeout => clearTimeout(timeout));
+    this.pendingDispatches.clear();
+
+    const now = performance.now();
+    getReleaseMessages(this.dispatched).forEach(raw => this.target.dispatch(raw, now));
+    // Messages already sent to the output may be scheduled in the future
+    const outputTime = Math.max(now, this.lastOutputTime);
+    getReleaseMessages(this.scheduled).forEach(raw => this.output?.send(raw, outputTime));
+  }
+
+  private schedule() {
+    const now = performance.now();
+    const horizon = now + this.lookahead;
+
+    while (this.state === PlayerState.PLAYING) {
+      const loop = this.getLoopRange();
+      const end = loop ? loop.end : this.duration;
+      const event = this.events[this.cursor];
+
+      // the loop end is where the loop start plays, but a sequence's last events play at its end
+      if (event && (loop ? event.timestamp < end : event.timestamp <= end)) {
+        const time = this.toTime(event.timestamp);
+        if (time > horizon) return;
+
+        this.playMessage(event.raw, time, now);
+        this.cursor++;
+        continue;
+      }
+
+      const endTime = this.toTime(end);
+      if (loop) {
+        if (endTime > horizon) return;
+
+        getReleaseMessages(this.scheduled, false).forEach(raw => this.playMessage(raw, endTime, now));
+        this.anchorTime = endTime;
+        this.anchorPosition = loop.start;
+        this.cursor = this.findEventIndex(loop.start);
+        continue;
+      }
+
+      // wait for the last messages to be emitted rather than dropping them in halt()
+      if (endTime > now || this.pendingDispatches.size > 0) return;
+
+      this.halt();
+      this.state = PlayerState.STOPPED;
+      this.setPosition(0);
+      this.onEnd?.();
+    }
+  }
+
+  /**
+   * Send a message to the output ahead of time and emit it on the bus when it's due
+   */
+  private playMessage(raw: Uint8Array | number[], time: number, now: number) {
+    trackSoundingState(this.scheduled, raw);
+    if (this.output) {
+      this.output.send(raw, time);
+      this.lastOutputTime = Math.max(this.lastOutputTime, time);
+    }
+
+    const dispatch = () => {
+      trackSoundingState(this.dispatched, raw);
+      this.target.dispatch(raw, time);
+    };
+
+    if (time <= now) {
+      dispatch();
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      this.pendingDispatches.delete(timeout);
+      dispatch();
+    }, time - now);
+    this.pendingDispatches.add(timeout);
+  }
+
+  private getLoopRange(): LoopRange | null {
+    if (!this.loop) return null;
+
+    const range = this.loop === true
+      ? { start: 0, end: this.duration }
+      : this.loop;
+    return range.end > range.start ? range : null;
+  }
+
+  private toTime(position: number): number {
+    return this.anchorTime + (position - this.anchorPosition) / this.tempo;
+  }
+
+  private findEventIndex(position: number): number {
+    const index = this.events.findIndex(event => event.timestamp >= position);
+    return index === -1 ? this.events.length : index;
+  }
+}
+
+/**
+ * Update the notes and pedals turned on by a played message
+ */
+function trackSoundingState(state: SoundingState, raw: Uint8Array | number[]) {
+  const [status, data1, data2] = raw;
+  const command = commandTable[status];
+  if (command === undefined) return;
+
+  const channel = status - commandIndex[command];
+  const key = (channel << 7) + data1;
+  if (command === Commands.NOTE_ON && data2 > 0) {
+    state.notes.add(key);
+  } else if (command === Commands.NOTE_ON || command === Commands.NOTE_OFF) {
+    state.notes.delete(key);
+  } else if (command === Commands.CONTROL_CHANGE && controlCommandTable[data1] === ControlCommands.SUSTAIN) {
+    if (data2 >= 64) {
+      state.sustainedChannels.add(channel);
+    } else {
+      state.sustainedChannels.delete(channel);
+    }
+  }
+}
+
+/**
+ * Get the messages releasing every note and pedal in a sounding state
+ *
+ * @param clear - Forget the released notes and pedals immediately
+ */
+function getReleaseMessages(state: SoundingState, clear = true): number[][] {
+  const messages = [
+    ...Array.from(state.notes, key => createNoteOff(key & 0x7f, 0, key >> 7)),
+    ...Array.from(state.sustainedChannels, channel => createControlChange(controlCommandIndex[ControlCommands.SUSTAIN], 0, channel)),
+  ];
+  if (clear) {
+    state.notes.clear();
+    state.sustainedChannels.clear();
+  }
+  return messages;
+}
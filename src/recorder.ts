@@ -0,0 +1,319 @@
+import HuMIDI from './humidi';
+import { Commands, commandTable } from './commands';
+import { ControlCommands, controlCommandIndex, controlCommandTable } from './controlCommands';
+import { createControlChange, createNoteOff } from './messages';
+
+import type { MIDIMessageMetadata } from './humidi';
+import type { ValueOf } from './utils';
+
+export const RecorderState = {
+  IDLE: 'idle',
+  RECORDING: 'recording',
+  PAUSED: 'paused',
+} as const;
+
+export type RecorderState = ValueOf<typeof RecorderState>;
+
+/**
+ * The HuMIDI instance, or the HuMIDI class itself, that a recorder listens to
+ */
+export type RecorderSource = Pick<HuMIDI, 'on' | 'off' | 'getActiveNotes'>;
+
+export type RecorderOptions = {
+  /** Where messages are recorded from, defaults to the shared HuMIDI instance */
+  source?: RecorderSource;
+  /** IDs of the inputs to record, defaults to all inputs */
+  inputs?: string[];
+  /** Channels (0-15) to record, defaults to all channels. System messages are always recorded. */
+  channels?: number[];
+};
+
+/**
+ * A recorded MIDI message
+ */
+export type RecordedEvent = {
+  /** Time since the take started in milliseconds, excluding paused time */
+  timestamp: number;
+  /** MIDI channel (0-15), or -1 for system messages */
+  channel: number;
+  /** ID of the input that sent the message, or null if it was not sent by a known device */
+  inputId: string | null;
+  /** Raw MIDI message bytes */
+  raw: Uint8Array;
+};
+
+export type RecordedTake = {
+  id: number;
+  /** Time the take started, relative to `performance.now()` */
+  startTime: number;
+  /** Length of the take in milliseconds, excluding paused time */
+  duration: number;
+  events: RecordedEvent[];
+};
+
+/**
+ * Records incoming MIDI messages into takes.
+ *
+ * Pausing stops both capturing and the take's clock, while punching out only
+ * stops capturing so the take keeps its timing. Notes still held when capturing
+ * stops are closed with note off messages, and sustain pedals still down are
+ * released, so takes never contain hanging notes.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new Recorder({ channels: [0] });
+ * recorder.start();
+ *
+ * // later
+ * const take = recorder.stop();
+ * const file = writeMIDIFile(take.events);
+ * localStorage.setItem('take', recorder.exportJSON(take.id));
+ * ```
+ */
+export class Recorder {
+  private readonly source: RecorderSource;
+  private readonly inputs: Set<string> | null;
+  private readonly channels: Set<number> | null;
+  private state: RecorderState = RecorderState.IDLE;
+  private takes: RecordedTake[] = [];
+  private take: RecordedTake | null = null;
+  private takeCount = 0;
+  private punchedIn = true;
+  /** Time the current capture started, used to find notes played during it */
+  private captureStartTime = 0;
+  private pauseStartTime = 0;
+  private pausedDuration = 0;
+  /** Channel and input of each sustain pedal that is down in the take, keyed by both */
+  private sustainedChannels: Map<string, { channel: number; inputId: string | null }> = new Map();
+  private readonly onMessage = (event: MIDIMessageMetadata) => this.record(event);
+
+  constructor(options: RecorderOptions = {}) {
+    this.source = options.source ?? HuMIDI;
+    this.inputs = options.inputs ? new Set(options.inputs) : null;
+    this.channels = options.channels ? new Set(options.channels) : null;
+  }
+
+  public getState(): RecorderState {
+    return this.state;
+  }
+
+  /**
+   * Check if incoming messages are currently being recorded
+   */
+  public isCapturing(): boolean {
+    return this.state === RecorderState.RECORDING && this.punchedIn;
+  }
+
+  /**
+   * Start recording a new take. Does nothing if a take is already in progress.
+   */
+  public start(): void {
+    if (this.state !== RecorderState.IDLE) return;
+
+    const now = performance.now();
+    this.take = {
+      id: ++this.takeCount,
+      startTime: now,
+      duration: 0,
+      events: [],
+    };
+    this.punchedIn = true;
+    this.captureStartTime = now;
+    this.pausedDuration = 0;
+    this.sustainedChannels.clear();
+    this.state = RecorderState.RECORDING;
+    this.source.on('message', this.onMessage);
+  }
+
+  /**
+   * Finish the current take, closing any hanging notes.
+   * @returns The finished take, or null if nothing was being recorded
+   */
+  public stop(): RecordedTake | null {
+    const take = this.take;
+    if (!take) return null;
+
+    const now = performance.now();
+    if (this.state === RecorderState.PAUSED) {
+      this.pausedDuration += now - this.pauseStartTime;
+    } else if (this.isCapturing()) {
+      this.closeHangingNotes(now);
+    }
+
+    take.duration = this.getTakeTime(now);
+    this.source.off('message', this.onMessage);
+    this.takes.push(take);
+    this.take = null;
+    this.state = RecorderState.IDLE;
+    return take;
+  }
+
+  /**
+   * Pause the current take. Time spent paused is left out of the take.
+   */
+  public pause(): void {
+    if (this.state !== RecorderState.RECORDING) return;
+
+    const now = performance.now();
+    if (this.punchedIn) {
+      this.closeHangingNotes(now);
+    }
+    this.pauseStartTime = now;
+    this.state = RecorderState.PAUSED;
+  }
+
+  public resume(): void {
+    if (this.state !== RecorderState.PAUSED) return;
+
+    const now = performance.now();
+    this.pausedDuration += now - this.pauseStartTime;
+    this.captureStartTime = now;
+    this.state = RecorderState.RECORDING;
+  }
+
+  /**
+   * Resume capturing messages after punching out
+   */
+  public punchIn(): void {
+    if (this.punchedIn) return;
+
+    this.punchedIn = true;
+    this.captureStartTime = performance.now();
+  }
+
+  /**
+   * Stop capturing messages while the take keeps running
+   */
+  public punchOut(): void {
+    if (!this.punchedIn) return;
+
+    if (this.state === RecorderState.RECORDING) {
+      this.closeHangingNotes(performance.now());
+    }
+    this.punchedIn = false;
+  }
+
+  /**
+   * Get the finished takes, oldest first
+   */
+  public getTakes(): RecordedTake[] {
+    return [...this.takes];
+  }
+
+  public deleteTake(id: number): void {
+    this.takes = this.takes.filter(take => take.id !== id);
+  }
+
+  /**
+   * Forget all finished takes
+   */
+  public clear(): void {
+    this.takes = [];
+  }
+
+  /**
+   * Export the events of a take.
+   *
+   * @param id - ID of the take, defaults to the latest take
+   * @returns Copies of the recorded events, or an empty array if there is no such take
+   */
+  public exportEvents(id?: number): RecordedEvent[] {
+    const take = this.findTake(id);
+    return take
+      ? take.events.map(event => ({ ...event, raw: Uint8Array.from(event.raw) }))
+      : [];
+  }
+
+  /**
+   * Export a take as JSON, with raw message bytes written as arrays of numbers.
+   *
+   * @param id - ID of the take, defaults to the latest take
+   * @returns The take as a JSON string, or null if there is no such take
+   */
+  public exportJSON(id?: number): string | null {
+    const take = this.findTake(id);
+    if (!take) return null;
+
+    return JSON.stringify({
+      ...take,
+      events: take.events.map(event => ({ ...event, raw: Array.from(event.raw) })),
+    });
+  }
+
+  private findTake(id?: number): RecordedTake | undefined {
+    return id === undefined
+      ? this.takes[this.takes.length - 1]
+      : this.takes.find(take => take.id === id);
+  }
+
+  private record(event: MIDIMessageMetadata) {
+    if (!this.take || !this.isCapturing()) return;
+
+    const inputId = event.input?.id ?? null;
+    if (!this.isSelected(event.channel, inputId)) return;
+
+    this.take.events.push({
+      timestamp: this.getTakeTime(event.timestamp),
+      channel: event.channel,
+      inputId,
+      raw: Uint8Array.from(event.raw),
+    });
+    this.trackSustain(event.channel, inputId, event.raw);
+  }
+
+  private trackSustain(channel: number, inputId: string | null, raw: Uint8Array) {
+    const [status, controller, value] = raw;
+    if (commandTable[status] !== Commands.CONTROL_CHANGE || controlCommandTable[controller] !== ControlCommands.SUSTAIN) {
+      return;
+    }
+
+    const key = `${inputId ?? ''}:${channel}`;
+    if (value >= 64) {
+      this.sustainedChannels.set(key, { channel, inputId });
+    } else {
+      this.sustainedChannels.delete(key);
+    }
+  }
+
+  private closeHangingNotes(time: number) {
+    const take = this.take;
+    if (!take) return;
+
+    const timestamp = this.getTakeTime(time);
+    this.source.getActiveNotes()
+      .filter(activeNote => activeNote.timestamp >= this.captureStartTime)
+      .filter(activeNote => this.isSelected(activeNote.channel, activeNote.deviceId))
+      .forEach(activeNote => {
+        take.events.push({
+          timestamp,
+          channel: activeNote.channel,
+          inputId: activeNote.deviceId,
+          raw: Uint8Array.from(createNoteOff(activeNote.note, 0, activeNote.channel)),
+        });
+      });
+
+    this.sustainedChannels.forEach(({ channel, inputId }) => {
+      take.events.push({
+        timestamp,
+        channel,
+        inputId,
+        raw: Uint8Array.from(createControlChange(controlCommandIndex[ControlCommands.SUSTAIN], 0, channel)),
+      });
+    });
+    this.sustainedChannels.clear();
+  }
+
+  private isSelected(channel: number, inputId: string | null): boolean {
+    if (this.inputs && (inputId === null || !this.inputs.has(inputId))) {
+      return false;
+    }
+
+    return !this.channels || channel === -1 || this.channels.has(channel);
+  }
+
+  private getTakeTime(time: number): number {
+    if (!this.take) return 0;
+
+    return Math.max(0, time - this.take.startTime - this.pausedDuration);
+  }
+}
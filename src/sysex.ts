@@ -0,0 +1,137 @@
+/**
+ * System exclusive message helpers
+ *
+ * ref: https://midi.org/midi-1-0-universal-system-exclusive-messages
+**/
+
+export const SYSEX_START = 0xf0;
+export const SYSEX_END = 0xf7;
+
+export const UniversalSysEx = {
+  NON_REAL_TIME: 0x7e,
+  REAL_TIME: 0x7f,
+  /** Device ID addressing every device on the bus */
+  ALL_DEVICES: 0x7f,
+} as const;
+
+const GENERAL_INFORMATION = 0x06;
+const IDENTITY_REQUEST = 0x01;
+const IDENTITY_REPLY = 0x02;
+
+/**
+ * A system exclusive message split into manufacturer ID and payload
+ */
+export type SysExMessage = {
+  /** Manufacturer ID bytes, either a single byte or three bytes starting with 0x00 */
+  manufacturerId: number[];
+  /** Device specific payload, excluding the manufacturer ID and the framing bytes */
+  data: Uint8Array;
+};
+
+/**
+ * Device information returned by a Universal SysEx Identity Reply
+ */
+export type IdentityReply = {
+  /** SysEx device ID (channel) of the replying device */
+  deviceId: number;
+  /** Manufacturer ID bytes, either a single byte or three bytes starting with 0x00 */
+  manufacturerId: number[];
+  /** 14-bit device family code */
+  family: number;
+  /** 14-bit device family member code */
+  familyMember: number;
+  /** Four byte software revision level */
+  version: number[];
+};
+
+/**
+ * Parse a complete system exclusive message.
+ *
+ * @param bytes - Message bytes, starting with 0xF0
+ * @returns The parsed message, or null if the bytes are not a valid SysEx message
+ */
+export function parseSysEx(bytes: Uint8Array | number[]): SysExMessage | null {
+  if (bytes[0] !== SYSEX_START || bytes.length < 2) {
+    return null;
+  }
+
+  const end = bytes[bytes.length - 1] === SYSEX_END
+    ? bytes.length - 1
+    : bytes.length;
+  const idLength = bytes[1] === 0 ? 3 : 1;
+  if (end < 1 + idLength) {
+    return null;
+  }
+
+  return {
+    manufacturerId: Array.from(bytes.slice(1, 1 + idLength)),
+    data: Uint8Array.from(bytes.slice(1 + idLength, end)),
+  };
+}
+
+/**
+ * Build a complete system exclusive message.
+ *
+ * @param manufacturerId - Manufacturer ID bytes (one byte, or three bytes starting with 0x00)
+ * @param data - Device specific payload (7-bit bytes)
+ * @returns Message bytes framed with 0xF0 and 0xF7
+ */
+export function createSysEx(manufacturerId: number[], data: number[] | Uint8Array): number[] {
+  return [
+    SYSEX_START,
+    ...manufacturerId,
+    ...Array.from(data, byte => byte & 0x7f),
+    SYSEX_END,
+  ];
+}
+
+/**
+ * Build a Universal SysEx Identity Request.
+ *
+ * @param deviceId - Device ID to address (defaults to all devices)
+ * @returns Message bytes ready to be sent to a MIDI output
+ *
+ * @example
+ * ```typescript
+ * HuMIDI.on('identityreply', (reply) => console.log(reply.manufacturerId));
+ * output.send(createIdentityRequest());
+ * ```
+ */
+export function createIdentityRequest(deviceId: number = UniversalSysEx.ALL_DEVICES): number[] {
+  return createSysEx(
+    [UniversalSysEx.NON_REAL_TIME],
+    [deviceId, GENERAL_INFORMATION, IDENTITY_REQUEST],
+  );
+}
+
+/**
+ * Parse a Universal SysEx Identity Reply.
+ *
+ * @param bytes - Message bytes, starting with 0xF0
+ * @returns The device identity, or null if the message is not an identity reply
+ */
+export function parseIdentityReply(bytes: Uint8Array | number[]): IdentityReply | null {
+  const message = parseSysEx(bytes);
+  if (!message || message.manufacturerId[0] !== UniversalSysEx.NON_REAL_TIME) {
+    return null;
+  }
+
+  const { data } = message;
+  if (data[1] !== GENERAL_INFORMATION || data[2] !== IDENTITY_REPLY) {
+    return null;
+  }
+
+  const idLength = data[3] === 0 ? 3 : 1;
+  const offset = 3 + idLength;
+  if (data.length < offset + 8) {
+    return null;
+  }
+
+  return {
+    deviceId: data[0],
+    manufacturerId: Array.from(data.slice(3, offset)),
+    family: data[offset] + (data[offset + 1] << 7),
+    familyMember: data[offset + 2] + (data[offset + 3] << 7),
+    version: Array.from(data.slice(offset + 4, offset + 8)),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Velocity curves
+ *
+ * Curves map the velocities a keyboard sends to the velocities an app works with.
+ * Shaped curves first normalize the input between `min` and `max`, the softest and
+ * hardest velocities the keyboard actually produces, then shape the result over the
+ * full 1-127 range.
+**/
+
+import type { ValueOf } from './utils';
+
+export const VelocityCurveType = {
+  LINEAR: 'linear',
+  EXPONENTIAL: 'exponential',
+  LOGARITHMIC: 'logarithmic',
+  FIXED: 'fixed',
+  LOOKUP: 'lookup',
+} as const;
+
+export type VelocityCurveType = ValueOf<typeof VelocityCurveType>;
+
+type VelocityRange = {
+  /** Softest input velocity, mapped to 1. Defaults to 1. */
+  min?: number;
+  /** Hardest input velocity, mapped to 127. Defaults to 127. */
+  max?: number;
+};
+
+export type VelocityCurve =
+  | VelocityRange & { type: typeof VelocityCurveType.LINEAR }
+  | VelocityRange & {
+    type: typeof VelocityCurveType.EXPONENTIAL;
+    /** Values above 1 make soft notes softer, below 1 make them louder. Defaults to 2. */
+    exponent?: number;
+  }
+  | VelocityRange & {
+    type: typeof VelocityCurveType.LOGARITHMIC;
+    /** Higher values make soft notes louder. Defaults to 9. */
+    strength?: number;
+  }
+  | { type: typeof VelocityCurveType.FIXED; velocity: number }
+  | {
+    type: typeof VelocityCurveType.LOOKUP;
+    /** Output velocity for each input velocity, indexed by input velocity */
+    table: number[];
+  };
+
+const DEFAULT_EXPONENT = 2;
+const DEFAULT_STRENGTH = 9;
+
+/**
+ * Map a velocity through a curve.
+ *
+ * @param curve - Velocity curve
+ * @param velocity - Input velocity (1-127)
+ * @returns Mapped velocity (1-127)
+ */
+export function applyVelocityCurve(curve: VelocityCurve, velocity: number): number {
+  switch (curve.type) {
+    case VelocityCurveType.FIXED:
+      return clampVelocity(curve.velocity);
+    case VelocityCurveType.LOOKUP: {
+      const index = Math.min(velocity, curve.table.length - 1);
+      return clampVelocity(curve.table[index] ?? velocity);
+    }
+  }
+
+  const min = curve.min ?? 1;
+  const max = curve.max ?? 127;
+  const x = max > min
+    ? Math.min(1, Math.max(0, (velocity - min) / (max - min)))
+    : 1;
+
+  let y = x;
+  if (curve.type === VelocityCurveType.EXPONENTIAL) {
+    y = x ** (curve.exponent ?? DEFAULT_EXPONENT);
+  } else if (curve.type === VelocityCurveType.LOGARITHMIC) {
+    const strength = curve.strength ?? DEFAULT_STRENGTH;
+    y = Math.log1p(strength * x) / Math.log1p(strength);
+  }
+
+  return clampVelocity(1 + y * 126);
+}
+
+function clampVelocity(velocity: number): number {
+  return Math.min(127, Math.max(1, Math.round(velocity)));
+}
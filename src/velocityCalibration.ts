@@ -0,0 +1,142 @@
+import HuMIDI from './humidi';
+import { WaitForTimeoutError } from './eventStream';
+import { VelocityCurveType } from './velocity';
+
+import type { NoteOnEvent, WaitForOptions } from './humidi';
+import type { VelocityCurve } from './velocity';
+
+export type CalibrationStrength = 'soft' | 'medium' | 'hard';
+
+export type VelocityCalibrationOptions = {
+  /** Where strikes are recorded from, defaults to the shared HuMIDI instance */
+  source?: Pick<HuMIDI, 'on' | 'off'>;
+  /** ID of the input to calibrate, defaults to strikes from any input */
+  inputId?: string;
+};
+
+/**
+ * Fits a velocity curve to a keyboard from recorded strikes.
+ *
+ * Soft and hard strikes set the range of the curve. When medium strikes are
+ * recorded as well, the curve is shaped so they map to the middle of the range.
+ *
+ * @example
+ * ```typescript
+ * const input = HuMIDI.getInputs()[0];
+ * const calibration = new VelocityCalibration({ inputId: input.id });
+ *
+ * showPrompt('Play 5 soft notes');
+ * await calibration.record('soft');
+ * showPrompt('Play 5 hard notes');
+ * await calibration.record('hard');
+ *
+ * input.setVelocityCurve(calibration.fit());
+ * ```
+ */
+export class VelocityCalibration {
+  private readonly source: Pick<HuMIDI, 'on' | 'off'>;
+  private readonly inputId: string | null;
+  private strikes: Record<CalibrationStrength, number[]> = { soft: [], medium: [], hard: [] };
+
+  constructor(options: VelocityCalibrationOptions = {}) {
+    this.source = options.source ?? HuMIDI;
+    this.inputId = options.inputId ?? null;
+  }
+
+  /**
+   * Record strikes of one strength, replacing any earlier strikes of that strength.
+   *
+   * @param strength - How hard the player is asked to play
+   * @param count - Number of note ons to record
+   * @param options - Timeout and abort signal
+   * @returns Promise that resolves with the recorded velocities
+   *
+   * @throws {WaitForTimeoutError} When fewer than `count` strikes arrive within the timeout
+   */
+  public record(strength: CalibrationStrength, count = 5, options: WaitForOptions = {}): Promise<number[]> {
+    const { timeout, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const velocities: number[] = [];
+    this.strikes[strength] = velocities;
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const finish = () => {
+        this.source.off('noteon', onNoteOn);
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+
+      const onNoteOn = (event: NoteOnEvent) => {
+        if (this.inputId !== null && event.input?.id !== this.inputId) return;
+
+        velocities.push(event.velocity);
+        if (velocities.length >= count) {
+          finish();
+          resolve([...velocities]);
+        }
+      };
+      this.source.on('noteon', onNoteOn);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          finish();
+          reject(new WaitForTimeoutError('noteon', timeout));
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Fit a curve to the recorded strikes.
+   *
+   * @returns A linear curve over the recorded range, or an exponential curve when
+   * medium strikes were recorded
+   * @throws {Error} When soft or hard strikes have not been recorded
+   */
+  public fit(): VelocityCurve {
+    const { soft, medium, hard } = this.strikes;
+    if (!soft.length || !hard.length) {
+      throw new Error('Soft and hard strikes must be recorded before fitting a curve');
+    }
+
+    const min = Math.round(getMean(soft));
+    const max = Math.max(min + 1, Math.round(getMean(hard)));
+    if (!medium.length) {
+      return { type: VelocityCurveType.LINEAR, min, max };
+    }
+
+    // Solve x ^ exponent = 0.5 so medium strikes land in the middle
+    const x = (getMean(medium) - min) / (max - min);
+    if (x <= 0 || x >= 1) {
+      return { type: VelocityCurveType.LINEAR, min, max };
+    }
+    return {
+      type: VelocityCurveType.EXPONENTIAL,
+      exponent: Math.log(0.5) / Math.log(x),
+      min,
+      max,
+    };
+  }
+
+  /**
+   * Forget all recorded strikes
+   */
+  public reset(): void {
+    this.strikes = { soft: [], medium: [], hard: [] };
+  }
+}
+
+function getMean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,293 @@
+/**
+ * In-memory MIDI backend
+ *
+ * Provides MIDI access without hardware or browser support. Virtual inputs can be
+ * connected, disconnected and made to emit messages, and virtual outputs record
+ * every message sent to them.
+**/
+
+import {
+  createControlChange,
+  createNoteOff,
+  createNoteOn,
+  createPitchBend,
+} from './messages';
+
+import type { AccessOptions } from './access';
+import type { MIDIBackend } from './backend';
+
+/**
+ * Options for creating a virtual device
+ */
+export type VirtualPortOptions = {
+  /** Unique identifier, generated when omitted */
+  id?: string;
+  name?: string;
+  manufacturer?: string;
+  /** Whether the device starts connected, defaults to true */
+  connected?: boolean;
+};
+
+/**
+ * Options for creating a virtual backend
+ */
+export type VirtualMIDIBackendOptions = {
+  /** Whether access requests are granted, defaults to true */
+  granted?: boolean;
+};
+
+/**
+ * A message received by a virtual output
+ */
+export type VirtualMessage = {
+  data: Uint8Array;
+  /** Time the message was scheduled for, if one was given */
+  timestamp?: number;
+};
+
+type PortStateListener = (port: VirtualMIDIPort) => void;
+
+abstract class VirtualMIDIPort {
+  public abstract readonly type: 'input' | 'output';
+  public readonly id: string;
+  public readonly name: string;
+  public readonly manufacturer: string;
+  public readonly version = '1.0';
+  public readonly connection = 'open';
+  public state: 'connected' | 'disconnected';
+  public onstatechange: ((event: WebMidi.MIDIConnectionEvent) => void) | null = null;
+  private readonly onChange: PortStateListener;
+
+  constructor(id: string, options: VirtualPortOptions, onChange: PortStateListener) {
+    this.id = id;
+    this.name = options.name ?? `Virtual ${id}`;
+    this.manufacturer = options.manufacturer ?? 'HuMIDI';
+    this.state = options.connected === false ? 'disconnected' : 'connected';
+    this.onChange = onChange;
+  }
+
+  /**
+   * Plug the device in, notifying MIDI access of the connection
+   */
+  public connect(): void {
+    this.setState('connected');
+  }
+
+  /**
+   * Unplug the device, notifying MIDI access of the disconnection
+   */
+  public disconnect(): void {
+    this.setState('disconnected');
+  }
+
+  public get isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  public async open(): Promise<this> {
+    return this;
+  }
+
+  public async close(): Promise<this> {
+    return this;
+  }
+
+  private setState(state: 'connected' | 'disconnected') {
+    if (this.state === state) return;
+
+    this.state = state;
+    this.onChange(this);
+  }
+}
+
+/**
+ * A virtual MIDI input device.
+ * Messages sent from it are received by HuMIDI as if played on a real device.
+ */
+export class VirtualMIDIInput extends VirtualMIDIPort {
+  public readonly type = 'input';
+  public onmidimessage: ((event: WebMidi.MIDIMessageEvent) => void) | null = null;
+
+  /**
+   * Emit raw MIDI bytes from this device. Ignored while disconnected.
+   *
+   * @param data - Complete MIDI message bytes, including the status byte
+   * @param timestamp - Time the message was received, defaults to `performance.now()`
+   */
+  public send(data: number[] | Uint8Array, timestamp = performance.now()): void {
+    if (!this.isConnected) return;
+
+    const event = { data: Uint8Array.from(data), timeStamp: timestamp };
+    this.onmidimessage?.(event as WebMidi.MIDIMessageEvent);
+  }
+
+  public noteOn(note: number, velocity: number, channel = 0, timestamp?: number): void {
+    this.send(createNoteOn(note, velocity, channel), timestamp);
+  }
+
+  public noteOff(note: number, velocity = 0, channel = 0, timestamp?: number): void {
+    this.send(createNoteOff(note, velocity, channel), timestamp);
+  }
+
+  public controlChange(controller: number, value: number, channel = 0, timestamp?: number): void {
+    this.send(createControlChange(controller, value, channel), timestamp);
+  }
+
+  public pitchBend(value: number, channel = 0, timestamp?: number): void {
+    this.send(createPitchBend(value, channel), timestamp);
+  }
+}
+
+/**
+ * A virtual MIDI output device that records every message sent to it
+ */
+export class VirtualMIDIOutput extends VirtualMIDIPort {
+  public readonly type = 'output';
+  public readonly messages: VirtualMessage[] = [];
+  /** Called for every message sent to this device */
+  public onmessage: ((message: VirtualMessage) => void) | null = null;
+
+  /**
+   * @throws {Error} When the device is disconnected
+   */
+  public send(data: number[] | Uint8Array, timestamp?: number): void {
+    if (!this.isConnected) {
+      throw new Error(`MIDI output ${this.id} is disconnected`);
+    }
+
+    const message: VirtualMessage = { data: Uint8Array.from(data) };
+    if (timestamp !== undefined) {
+      message.timestamp = timestamp;
+    }
+    this.messages.push(message);
+    this.onmessage?.(message);
+  }
+
+  /**
+   * Forget the recorded messages
+   */
+  public clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * MIDI backend with virtual devices, for tests and demos without hardware.
+ *
+ * @example
+ * ```typescript
+ * const backend = new VirtualMIDIBackend();
+ * const keyboard = backend.createInput({ name: 'Virtual Keyboard' });
+ * const synth = backend.createOutput({ name: 'Virtual Synth' });
+ *
+ * await HuMIDI.requestAccess({ backend });
+ * HuMIDI.on('noteon', ({ note, velocity }) => {
+ *   HuMIDI.getOutputs()[0].noteOn(note, velocity);
+ * });
+ *
+ * keyboard.noteOn(60, 100);
+ * console.log(synth.messages);
+ *
+ * keyboard.disconnect(); // emits 'inputdisconnected'
+ * ```
+ */
+export class VirtualMIDIBackend implements MIDIBackend {
+  private readonly granted: boolean;
+  private readonly inputs: Map<string, VirtualMIDIInput> = new Map();
+  private readonly outputs: Map<string, VirtualMIDIOutput> = new Map();
+  private access: WebMidi.MIDIAccess | null = null;
+  private portCount = 0;
+
+  constructor(options: VirtualMIDIBackendOptions = {}) {
+    this.granted = options.granted ?? true;
+  }
+
+  public async requestAccess(options: AccessOptions): Promise<WebMidi.MIDIAccess> {
+    if (!this.granted) {
+      throw new Error('MIDI permissions denied');
+    }
+
+    if (!this.access) {
+      this.access = {
+        inputs: new Map(),
+        outputs: new Map(),
+        sysexEnabled: !!options.sysex,
+        onstatechange: null,
+      } as unknown as WebMidi.MIDIAccess;
+      this.inputs.forEach(input => this.updateAccessPorts(input));
+      this.outputs.forEach(output => this.updateAccessPorts(output));
+    }
+
+    return this.access;
+  }
+
+  public async hasPermissions(): Promise<boolean> {
+    return this.granted;
+  }
+
+  /**
+   * Add a virtual input device. Connected devices are announced to MIDI access immediately.
+   */
+  public createInput(options: VirtualPortOptions = {}): VirtualMIDIInput {
+    const input = new VirtualMIDIInput(
+      options.id ?? this.createPortId('input'),
+      options,
+      port => this.onPortStateChange(port),
+    );
+    this.inputs.set(input.id, input);
+    if (input.isConnected) {
+      this.onPortStateChange(input);
+    }
+    return input;
+  }
+
+  /**
+   * Add a virtual output device. Connected devices are announced to MIDI access immediately.
+   */
+  public createOutput(options: VirtualPortOptions = {}): VirtualMIDIOutput {
+    const output = new VirtualMIDIOutput(
+      options.id ?? this.createPortId('output'),
+      options,
+      port => this.onPortStateChange(port),
+    );
+    this.outputs.set(output.id, output);
+    if (output.isConnected) {
+      this.onPortStateChange(output);
+    }
+    return output;
+  }
+
+  public getInputs(): VirtualMIDIInput[] {
+    return Array.from(this.inputs.values());
+  }
+
+  public getOutputs(): VirtualMIDIOutput[] {
+    return Array.from(this.outputs.values());
+  }
+
+  private createPortId(type: 'input' | 'output'): string {
+    return `virtual-${type}-${++this.portCount}`;
+  }
+
+  private onPortStateChange(port: VirtualMIDIPort) {
+    if (!this.access) return;
+
+    this.updateAccessPorts(port);
+    const event = { port } as unknown as WebMidi.MIDIConnectionEvent;
+    port.onstatechange?.(event);
+    this.access.onstatechange?.(event);
+  }
+
+  private updateAccessPorts(port: VirtualMIDIPort) {
+    if (!this.access) return;
+
+    const ports = (port.type === 'input'
+      ? this.access.inputs
+      : this.access.outputs) as Map<string, unknown>;
+    if (port.isConnected) {
+      ports.set(port.id, port);
+    } else {
+      ports.delete(port.id);
+    }
+  }
+}
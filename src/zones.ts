@@ -0,0 +1,60 @@
+/**
+ * Keyboard zones
+ *
+ * Zones split a keyboard into regions, e.g. a left hand and a right hand, or
+ * layer several regions over the same keys. Every condition a zone leaves out
+ * matches everything, so zones can overlap.
+**/
+
+export type Zone = {
+  /** Name used to tag events and to subscribe to the zone */
+  name: string;
+  /** Lowest note in the zone (0-127), defaults to 0 */
+  low?: number;
+  /** Highest note in the zone (0-127), defaults to 127 */
+  high?: number;
+  /** Only match notes played on this input device */
+  inputId?: string;
+  /** Only match notes on this MIDI channel (0-15) */
+  channel?: number;
+  /** Semitones added to the notes reported to the zone's handlers, defaults to 0 */
+  transpose?: number;
+  /** Softest mapped velocity in the zone (1-127), defaults to 1 */
+  minVelocity?: number;
+  /** Hardest mapped velocity in the zone (1-127), defaults to 127 */
+  maxVelocity?: number;
+};
+
+/**
+ * A played note, as matched against zones
+ */
+export type ZoneNote = {
+  note: number;
+  /** Velocity after the velocity curve was applied */
+  velocity: number;
+  channel: number;
+  inputId: string | null;
+};
+
+/**
+ * Find the zones a note on falls in. Zones that would transpose the note
+ * outside of 0-127 are left out.
+ *
+ * @param zones - Zone definitions
+ * @param zoneNote - The played note
+ * @returns The matching zones, in definition order
+ */
+export function findZones(zones: Zone[], zoneNote: ZoneNote): Zone[] {
+  const { note, velocity, channel, inputId } = zoneNote;
+  return zones.filter(zone => {
+    const transposed = note + (zone.transpose ?? 0);
+    return note >= (zone.low ?? 0)
+      && note <= (zone.high ?? 127)
+      && velocity >= (zone.minVelocity ?? 1)
+      && velocity <= (zone.maxVelocity ?? 127)
+      && (zone.channel === undefined || zone.channel === channel)
+      && (zone.inputId === undefined || zone.inputId === inputId)
+      && transposed >= 0
+      && transposed <= 127;
+  });
+}
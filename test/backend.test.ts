@@ -0,0 +1,111 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import HuMIDI, { AccessStatus } from '@/humidi';
+import {
+  MIDIAccessBackend,
+  MIDIUnsupportedError,
+  WebMIDIBackend,
+} from '@/backend';
+
+
+const createMockAccess = () => ({
+  inputs: new Map([
+    ['node-input', {
+      id: 'node-input',
+      name: 'Node Input',
+      manufacturer: 'Test Manufacturer',
+      type: 'input',
+      state: 'connected',
+      onmidimessage: null as any,
+    }],
+  ]),
+  outputs: new Map(),
+  onstatechange: null as any,
+}) as unknown as WebMidi.MIDIAccess;
+
+
+describe('backends', () => {
+  const requestMIDIAccess = navigator.requestMIDIAccess;
+
+  beforeEach(() => {
+    HuMIDI.reset();
+  });
+
+  afterEach(() => {
+    navigator.requestMIDIAccess = requestMIDIAccess;
+  });
+
+  describe('WebMIDIBackend', () => {
+    it('should throw MIDIUnsupportedError when the Web MIDI API is missing', async () => {
+      navigator.requestMIDIAccess = undefined as any;
+
+      await expect(new WebMIDIBackend().requestAccess({})).rejects.toThrow(MIDIUnsupportedError);
+    });
+
+    it('should leave access unrequested when the Web MIDI API is missing', async () => {
+      navigator.requestMIDIAccess = undefined as any;
+
+      await expect(HuMIDI.requestAccess()).rejects.toThrow(MIDIUnsupportedError);
+      expect(HuMIDI.getAccessStatus()).toBe(AccessStatus.UNREQUESTED);
+
+      await HuMIDI.requestAccess({ backend: new MIDIAccessBackend(createMockAccess()) });
+      expect(HuMIDI.getAccessStatus()).toBe(AccessStatus.ACCEPTED);
+    });
+  });
+
+  describe('MIDIAccessBackend', () => {
+    it('should use an injected MIDIAccess object', async () => {
+      const access = createMockAccess();
+      const backend = new MIDIAccessBackend(access);
+
+      expect(await backend.hasPermissions()).toBe(true);
+      await HuMIDI.requestAccess({ backend });
+
+      const noteOnHandler = vi.fn();
+      HuMIDI.on('noteon', noteOnHandler);
+      const input = access.inputs.get('node-input')!;
+      input.onmidimessage!({ data: new Uint8Array([144, 60, 100]), timeStamp: 5 } as WebMidi.MIDIMessageEvent);
+
+      expect(HuMIDI.getInputs()).toEqual([expect.objectContaining({ id: 'node-input' })]);
+      expect(noteOnHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, timestamp: 5 }));
+    });
+
+    it('should call an injected requestMIDIAccess function with the access options', async () => {
+      const request = vi.fn().mockResolvedValue(createMockAccess());
+      const backend = new MIDIAccessBackend(request);
+
+      expect(await backend.hasPermissions()).toBe(false);
+      await HuMIDI.requestAccess({ backend, sysex: true });
+
+      expect(request).toHaveBeenCalledWith(expect.objectContaining({ sysex: true }));
+      expect(await HuMIDI.hasPermissions()).toBe(true);
+    });
+
+    it('should switch to a backend requested after access was granted', async () => {
+      const first = createMockAccess();
+      const second = createMockAccess();
+      await HuMIDI.requestAccess({ backend: new MIDIAccessBackend(first) });
+      await HuMIDI.requestAccess({ backend: new MIDIAccessBackend(second) });
+
+      const noteOnHandler = vi.fn();
+      HuMIDI.on('noteon', noteOnHandler);
+      second.inputs.get('node-input')!.onmidimessage!({ data: new Uint8Array([144, 60, 100]) } as WebMidi.MIDIMessageEvent);
+
+      expect(first.inputs.get('node-input')!.onmidimessage).toBeNull();
+      expect(noteOnHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report denial when the injected function rejects', async () => {
+      const backend = new MIDIAccessBackend(vi.fn().mockRejectedValue(new Error('No MIDI driver')));
+
+      await expect(HuMIDI.requestAccess({ backend })).rejects.toThrow('MIDI permissions denied');
+      expect(HuMIDI.getAccessStatus()).toBe(AccessStatus.DENIED);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+} from 'vitest';
+import { MIDIClock } from '@/clock';
+
+
+// 120 BPM at 24 PPQN
+const TICK_INTERVAL = 500 / 24;
+
+describe('MIDIClock', () => {
+  let clock: MIDIClock;
+
+  beforeEach(() => {
+    clock = new MIDIClock();
+  });
+
+  it('should estimate tempo from clock intervals', () => {
+    tickTimes(clock, 48, 0, TICK_INTERVAL);
+
+    expect(clock.getState().bpm).toBeCloseTo(120, 5);
+  });
+
+  it('should not report a tempo before receiving two clocks', () => {
+    clock.tick(0);
+
+    expect(clock.getState().bpm).toBeNull();
+  });
+
+  it('should ignore jittery outliers', () => {
+    let time = tickTimes(clock, 24, 0, TICK_INTERVAL);
+    // a single late clock followed by an early one
+    clock.tick(time += TICK_INTERVAL * 3);
+    clock.tick(time += TICK_INTERVAL * 0.2);
+
+    expect(clock.getState().bpm).toBeCloseTo(120, 5);
+  });
+
+  it('should follow sustained tempo changes', () => {
+    const time = tickTimes(clock, 48, 0, TICK_INTERVAL);
+    tickTimes(clock, 48, time, TICK_INTERVAL / 2);
+
+    expect(clock.getState().bpm).toBeCloseTo(240, 5);
+  });
+
+  it('should only count beats while running', () => {
+    const beats: number[] = [];
+
+    for (let i = 0; i < 24; i++) {
+      expect(clock.tick(i)).toBeNull();
+    }
+
+    clock.start();
+    for (let i = 0; i < 48; i++) {
+      const beat = clock.tick(i);
+      if (beat !== null) beats.push(beat);
+    }
+
+    expect(beats).toEqual([0, 1]);
+    expect(clock.getState()).toMatchObject({ running: true, position: 8, beat: 2 });
+  });
+
+  it('should resume from the song position on continue', () => {
+    clock.start();
+    clock.stop();
+    clock.setSongPosition(8);
+    clock.continue();
+
+    expect(clock.tick(0)).toBe(2);
+    expect(clock.getState().position).toBe(8);
+  });
+});
+
+function tickTimes(clock: MIDIClock, count: number, start: number, interval: number): number {
+  let time = start;
+  for (let i = 0; i < count; i++) {
+    time += interval;
+    clock.tick(time);
+  }
+  return time;
+}
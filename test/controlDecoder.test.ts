@@ -0,0 +1,149 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+} from 'vitest';
+import HuMIDI from '@/humidi';
+import { ControlDecoder, getParameterSemitones } from '@/controlDecoder';
+
+
+describe('ControlDecoder', () => {
+  let decoder: ControlDecoder;
+
+  beforeEach(() => {
+    decoder = new ControlDecoder();
+  });
+
+  it('should combine 14-bit controller pairs', () => {
+    expect(decoder.decode(null, 0, 1, 64)).toEqual({ type: 'controlchange14', controller: 1, value: 8192 });
+    expect(decoder.decode(null, 0, 33, 5)).toEqual({ type: 'controlchange14', controller: 1, value: 8197 });
+    expect(decoder.decode(null, 0, 33, 6)).toEqual({ type: 'controlchange14', controller: 1, value: 8198 });
+  });
+
+  it('should ignore an LSB before its MSB', () => {
+    expect(decoder.decode(null, 0, 39, 10)).toBeNull();
+    expect(decoder.decode(null, 0, 64, 127)).toBeNull();
+  });
+
+  it('should decode registered and non-registered parameters', () => {
+    decoder.decode(null, 0, 101, 0);
+    decoder.decode(null, 0, 100, 0);
+    expect(decoder.decode(null, 0, 6, 12)).toEqual({ type: 'rpn', parameter: 0, value: 12 << 7 });
+    expect(decoder.decode(null, 0, 38, 50)).toEqual({ type: 'rpn', parameter: 0, value: (12 << 7) + 50 });
+
+    decoder.decode(null, 0, 99, 1);
+    decoder.decode(null, 0, 98, 8);
+    expect(decoder.decode(null, 0, 6, 100)).toEqual({ type: 'nrpn', parameter: 136, value: 100 << 7 });
+  });
+
+  it('should update only the LSB of a parameter set earlier', () => {
+    decoder.decode(null, 0, 101, 0);
+    decoder.decode(null, 0, 100, 1);
+    decoder.decode(null, 0, 6, 64);
+    decoder.decode(null, 0, 101, 127);
+    decoder.decode(null, 0, 100, 127);
+    decoder.decode(null, 0, 101, 0);
+    decoder.decode(null, 0, 100, 1);
+
+    expect(decoder.decode(null, 0, 38, 10)).toEqual({ type: 'rpn', parameter: 1, value: 8202 });
+    expect(decoder.getParameterValue(null, 0, 'rpn', 1)).toBe(8202);
+  });
+
+  it('should ignore data entry without a parameter or for the null parameter', () => {
+    expect(decoder.decode(null, 0, 6, 2)).toBeNull();
+
+    decoder.decode(null, 0, 101, 127);
+    decoder.decode(null, 0, 100, 127);
+    expect(decoder.decode(null, 0, 6, 2)).toBeNull();
+
+    decoder.decode(null, 0, 101, 0);
+    decoder.decode(null, 0, 100, 0);
+    decoder.decode(null, 0, 121, 0);
+    expect(decoder.decode(null, 0, 6, 2)).toBeNull();
+  });
+
+  it('should keep separate state per channel and source', () => {
+    decoder.decode('a', 0, 101, 0);
+    decoder.decode('a', 0, 100, 0);
+    decoder.decode('a', 0, 7, 100);
+
+    expect(decoder.decode('a', 1, 6, 2)).toBeNull();
+    expect(decoder.decode('b', 0, 6, 2)).toBeNull();
+    expect(decoder.decode('b', 0, 39, 1)).toBeNull();
+    expect(decoder.decode('a', 0, 6, 2)).toEqual({ type: 'rpn', parameter: 0, value: 256 });
+  });
+
+  it('should convert standard parameters to semitones', () => {
+    expect(getParameterSemitones(0, (12 << 7) + 50)).toBe(12.5);
+    expect(getParameterSemitones(1, 0)).toBe(-1);
+    expect(getParameterSemitones(1, 8192)).toBe(0);
+    expect(getParameterSemitones(2, 62 << 7)).toBe(-2);
+    expect(getParameterSemitones(5, (1 << 7) + 64)).toBe(1.5);
+    expect(getParameterSemitones(3, 5 << 7)).toBeNull();
+  });
+});
+
+describe('14-bit and parameter events', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+  });
+
+  it('should emit controlchange14 events', () => {
+    const handler = vi.fn();
+    HuMIDI.on('controlchange14', handler);
+
+    HuMIDI.dispatch([0xb2, 7, 100]);
+    HuMIDI.dispatch([0xb2, 39, 3]);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({
+      controller: 7,
+      name: 'volume',
+      value: (100 << 7) + 3,
+      channel: 2,
+    }));
+  });
+
+  it('should emit rpn events with standard names and semitones', () => {
+    const handler = vi.fn();
+    HuMIDI.on('rpn', handler, 0);
+
+    HuMIDI.dispatch([0xb0, 101, 0]);
+    HuMIDI.dispatch([0xb0, 100, 2]);
+    HuMIDI.dispatch([0xb0, 6, 66]);
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+      parameter: 2,
+      name: 'coarsetuning',
+      value: 66 << 7,
+      semitones: 2,
+    }));
+  });
+
+  it('should emit nrpn events', () => {
+    const handler = vi.fn();
+    const rpnHandler = vi.fn();
+    HuMIDI.on('nrpn', handler);
+    HuMIDI.on('rpn', rpnHandler);
+
+    HuMIDI.dispatch([0xb0, 99, 0]);
+    HuMIDI.dispatch([0xb0, 98, 20]);
+    HuMIDI.dispatch([0xb0, 6, 1]);
+    HuMIDI.dispatch([0xb0, 38, 1]);
+
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({ parameter: 20, value: 129 }));
+    expect(rpnHandler).not.toHaveBeenCalled();
+  });
+
+  it('should still emit plain control change events', () => {
+    const handler = vi.fn();
+    HuMIDI.on('controlchange', handler);
+
+    HuMIDI.dispatch([0xb0, 101, 0]);
+    HuMIDI.dispatch([0xb0, 6, 2]);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
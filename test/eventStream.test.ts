@@ -0,0 +1,217 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import HuMIDI from '@/humidi';
+import {
+  EventBufferOverflowError,
+  MIDIEventStream,
+  WaitForTimeoutError,
+} from '@/eventStream';
+
+
+describe('MIDIEventStream', () => {
+  function createStream(options = {}) {
+    let push: (event: number) => void = () => {};
+    const unsubscribe = vi.fn();
+    const stream = new MIDIEventStream<number>(next => {
+      push = next;
+      return unsubscribe;
+    }, options);
+    return { stream, push: (event: number) => push(event), unsubscribe };
+  }
+
+  it('should deliver events to waiting reads and buffer the rest', async () => {
+    const { stream, push } = createStream();
+
+    const read = stream.next();
+    push(1);
+    push(2);
+    push(3);
+
+    expect(await read).toEqual({ done: false, value: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 2 });
+    expect(await stream.next()).toEqual({ done: false, value: 3 });
+  });
+
+  it('should drop the oldest events when the buffer is full', async () => {
+    const { stream, push } = createStream({ bufferSize: 2 });
+
+    [1, 2, 3, 4].forEach(push);
+    stream.close();
+
+    const events = [];
+    for await (const event of stream) {
+      events.push(event);
+    }
+    expect(events).toEqual([3, 4]);
+    expect(stream.getDroppedCount()).toBe(2);
+  });
+
+  it('should drop the newest events with the dropnewest policy', async () => {
+    const { stream, push } = createStream({ bufferSize: 2, overflow: 'dropnewest' });
+
+    [1, 2, 3, 4].forEach(push);
+
+    expect((await stream.next()).value).toBe(1);
+    expect((await stream.next()).value).toBe(2);
+    expect(stream.getDroppedCount()).toBe(2);
+  });
+
+  it('should fail after the buffered events with the error policy', async () => {
+    const { stream, push, unsubscribe } = createStream({ bufferSize: 1, overflow: 'error' });
+
+    push(1);
+    push(2);
+
+    expect(unsubscribe).toHaveBeenCalled();
+    expect((await stream.next()).value).toBe(1);
+    await expect(stream.next()).rejects.toBeInstanceOf(EventBufferOverflowError);
+  });
+
+  it('should finish waiting reads and unsubscribe when closed', async () => {
+    const { stream, unsubscribe } = createStream();
+
+    const read = stream.next();
+    stream.close();
+
+    expect(await read).toEqual({ done: true, value: undefined });
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    expect(stream.isClosed()).toBe(true);
+  });
+
+  it('should close when the signal aborts', async () => {
+    const controller = new AbortController();
+    const { stream, unsubscribe } = createStream({ signal: controller.signal });
+
+    controller.abort();
+
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(await stream.next()).toEqual({ done: true, value: undefined });
+  });
+
+  it('should unsubscribe when a for await loop breaks', async () => {
+    const { stream, push, unsubscribe } = createStream();
+    push(1);
+
+    for await (const event of stream) {
+      expect(event).toBe(1);
+      break;
+    }
+
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should be readable as a ReadableStream', async () => {
+    const { stream, push, unsubscribe } = createStream();
+    const reader = stream.toReadableStream().getReader();
+
+    push(1);
+    expect(await reader.read()).toEqual({ done: false, value: 1 });
+
+    const read = reader.read();
+    push(2);
+    expect(await read).toEqual({ done: false, value: 2 });
+
+    await reader.cancel();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
+
+describe('HuMIDI.events', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+  });
+
+  it('should stream every message by default', async () => {
+    const stream = HuMIDI.events();
+
+    HuMIDI.dispatch([0x90, 60, 100]);
+    HuMIDI.dispatch([0xf8]);
+
+    expect((await stream.next()).value).toEqual(expect.objectContaining({ type: 'message', channel: 0 }));
+    expect((await stream.next()).value).toEqual(expect.objectContaining({ type: 'message', channel: -1 }));
+  });
+
+  it('should stream the given event types and channels, tagged with their type', async () => {
+    const stream = HuMIDI.events({ types: ['noteon', 'noteoff'], channel: 1 });
+
+    HuMIDI.dispatch([0x90, 60, 100]);
+    HuMIDI.dispatch([0x91, 62, 100]);
+    HuMIDI.dispatch([0xe1, 0, 64]);
+    HuMIDI.dispatch([0x81, 62, 0]);
+    stream.close();
+
+    const events = [];
+    for await (const event of stream) {
+      events.push([event.type, event.note]);
+    }
+    expect(events).toEqual([['noteon', 62], ['noteoff', 62]]);
+  });
+
+  it('should stop listening when closed', () => {
+    const stream = HuMIDI.events({ types: ['noteon'], bufferSize: 1, overflow: 'dropnewest' });
+
+    stream.close();
+    HuMIDI.dispatch([0x90, 60, 100]);
+
+    expect(stream.getDroppedCount()).toBe(0);
+  });
+});
+
+describe('HuMIDI.waitFor', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve with the first matching event', async () => {
+    const waiting = HuMIDI.waitFor('noteon', event => event.note < 40);
+
+    HuMIDI.dispatch([0x90, 60, 100]);
+    HuMIDI.dispatch([0x90, 21, 100]);
+    HuMIDI.dispatch([0x90, 22, 100]);
+
+    expect(await waiting).toEqual(expect.objectContaining({ note: 21 }));
+  });
+
+  it('should reject when no matching event arrives in time', async () => {
+    const handler = vi.fn();
+    const waiting = HuMIDI.waitFor('noteon', undefined, { timeout: 1000 });
+    waiting.catch(handler);
+
+    vi.advanceTimersByTime(1000);
+    await expect(waiting).rejects.toBeInstanceOf(WaitForTimeoutError);
+
+    HuMIDI.dispatch([0x90, 60, 100]);
+    await Promise.resolve();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject when the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = HuMIDI.waitFor('noteon', undefined, { signal: controller.signal });
+
+    controller.abort(new Error('cancelled'));
+
+    await expect(waiting).rejects.toThrow('cancelled');
+  });
+
+  it('should reject when the predicate throws', async () => {
+    const waiting = HuMIDI.waitFor('noteon', () => {
+      throw new Error('bad predicate');
+    });
+
+    HuMIDI.dispatch([0x90, 60, 100]);
+
+    await expect(waiting).rejects.toThrow('bad predicate');
+  });
+});
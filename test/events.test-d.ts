@@ -0,0 +1,83 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import HuMIDI, { createHuMIDI } from '@/humidi';
+
+import type {
+  ControlChangeEvent,
+  EventName,
+  InputEvent,
+  MIDIMessageMetadata,
+  NoteOffEvent,
+  NoteOnEvent,
+  SustainEvent,
+  TransportEvent,
+} from '@/humidi';
+
+
+describe('event types', () => {
+  it('should infer handler payloads from the event name', () => {
+    HuMIDI.on('noteon', event => {
+      expectTypeOf(event).toEqualTypeOf<NoteOnEvent>();
+    });
+    HuMIDI.on('noteoff', event => {
+      expectTypeOf(event).toEqualTypeOf<NoteOffEvent>();
+    });
+    HuMIDI.on('controlchange', event => {
+      expectTypeOf(event).toEqualTypeOf<ControlChangeEvent>();
+    });
+    HuMIDI.on('sustainon', event => {
+      expectTypeOf(event).toEqualTypeOf<SustainEvent>();
+    });
+    HuMIDI.on('start', event => {
+      expectTypeOf(event).toEqualTypeOf<TransportEvent>();
+    });
+    HuMIDI.on('inputconnected', event => {
+      expectTypeOf(event).toEqualTypeOf<InputEvent>();
+    });
+    createHuMIDI().on('message', event => {
+      expectTypeOf(event).toEqualTypeOf<MIDIMessageMetadata>();
+    });
+  });
+
+  it('should reject handlers for another event', () => {
+    const onNoteOn = (event: NoteOnEvent) => event.velocity;
+
+    HuMIDI.on('noteon', onNoteOn);
+    // @ts-expect-error a note off has no velocity
+    HuMIDI.on('noteoff', onNoteOn);
+    // @ts-expect-error a note off has no velocity
+    HuMIDI.off('noteoff', onNoteOn);
+    // @ts-expect-error pitch bends have no velocity
+    HuMIDI.on('pitchbend', event => event.velocity);
+  });
+
+  it('should accept handlers for a common payload', () => {
+    const onMessage = (event: MIDIMessageMetadata) => event.raw;
+
+    HuMIDI.on('noteon', onMessage);
+    HuMIDI.on('pitchbend', onMessage, { channel: [0, 1] });
+  });
+
+  it('should reject unknown event names', () => {
+    // @ts-expect-error not an event
+    HuMIDI.on('noteup', () => {});
+    expectTypeOf<'noteon'>().toExtend<EventName>();
+    expectTypeOf<'noteup'>().not.toExtend<EventName>();
+  });
+
+  it('should type waitFor and event streams', () => {
+    expectTypeOf(HuMIDI.waitFor('noteon', event => event.velocity > 64)).resolves.toEqualTypeOf<NoteOnEvent>();
+
+    const stream = HuMIDI.events({ types: ['noteon', 'noteoff'] });
+    void (async () => {
+      for await (const event of stream) {
+        if (event.type === 'noteon') {
+          expectTypeOf(event.velocity).toBeNumber();
+        } else {
+          expectTypeOf(event).toExtend<NoteOffEvent>();
+          // @ts-expect-error note offs have no velocity
+          void event.velocity;
+        }
+      }
+    });
+  });
+});
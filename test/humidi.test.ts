@@ -4,8 +4,9 @@ import {
   expect,
   vi,
   beforeEach,
+  afterEach,
 } from 'vitest';
-import HuMIDI, { AccessStatus } from '@/humidi';
+import HuMIDI, { AccessStatus, createHuMIDI } from '@/humidi';
 
 
 interface PitchBendTestCase {
@@ -29,6 +30,7 @@ const mockMIDIInput2 = {
 };
 
 const mockMIDIOutput = {
+  send: vi.fn(),
   id: 'output1',
   name: 'Test Output',
   manufacturer: 'Test Manufacturer',
@@ -92,6 +94,16 @@ describe('HuMIDI', () => {
       await expect(HuMIDI.requestAccess()).rejects.toThrow('MIDI permissions denied');
     });
 
+    it('should request sysex access when asked to', async () => {
+      (navigator.requestMIDIAccess as any).mockResolvedValue(mockMIDIAccess);
+
+      await HuMIDI.requestAccess({ sysex: true });
+
+      expect(navigator.requestMIDIAccess).toHaveBeenCalledWith(
+        expect.objectContaining({ sysex: true }),
+      );
+    });
+
     it('should not request access multiple times', async () => {
       (navigator.requestMIDIAccess as any).mockResolvedValue(mockMIDIAccess);
 
@@ -100,6 +112,34 @@ describe('HuMIDI', () => {
 
       expect(navigator.requestMIDIAccess).toHaveBeenCalledTimes(1);
     });
+
+    it('should request access again when sysex was not granted yet', async () => {
+      (navigator.requestMIDIAccess as any).mockResolvedValue(mockMIDIAccess);
+      const widget = createHuMIDI();
+
+      await HuMIDI.requestAccess();
+      await widget.requestAccess({ sysex: true });
+      await HuMIDI.requestAccess({ sysex: true });
+      await HuMIDI.requestAccess();
+
+      expect(navigator.requestMIDIAccess).toHaveBeenCalledTimes(2);
+      expect(navigator.requestMIDIAccess).toHaveBeenLastCalledWith(expect.objectContaining({ sysex: true }));
+      widget.reset();
+    });
+
+    it('should keep the granted access when a sysex request is denied', async () => {
+      (navigator.requestMIDIAccess as any).mockResolvedValueOnce(mockMIDIAccess);
+      (navigator.requestMIDIAccess as any).mockRejectedValueOnce(new Error('Access denied'));
+      const handler = vi.fn();
+      HuMIDI.on('noteon', handler);
+
+      await HuMIDI.requestAccess();
+      await expect(HuMIDI.requestAccess({ sysex: true })).rejects.toThrow('MIDI permissions denied');
+      dispatchMidi(144, 60, 100);
+
+      expect(HuMIDI.getAccessStatus()).toBe(AccessStatus.ACCEPTED);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('events', () => {
@@ -115,10 +155,10 @@ describe('HuMIDI', () => {
 
         dispatchMidi(144, 60, 100);
 
-        expect(handler).toHaveBeenCalledWith({
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
           note: 60,
           velocity: 100,
-        });
+        }));
       });
 
       it('should register and trigger noteoff event handlers', () => {
@@ -127,9 +167,10 @@ describe('HuMIDI', () => {
 
         dispatchMidi(128, 60, 0);
 
-        expect(handler).toHaveBeenCalledWith({
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
           note: 60,
-        });
+          sustained: false,
+        }));
       });
 
       it('should handle noteon with zero velocity as noteoff', () => {
@@ -138,9 +179,10 @@ describe('HuMIDI', () => {
 
         dispatchMidi(144, 60, 0);
 
-        expect(noteOffHandler).toHaveBeenCalledWith({
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({
           note: 60,
-        });
+          sustained: false,
+        }));
       });
 
       it('should remove event handlers with off method', () => {
@@ -211,6 +253,122 @@ describe('HuMIDI', () => {
 
 
 
+    describe('subscription options', () => {
+      it('should filter by one or more channels', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler, { channel: [0, 2] });
+
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 61, 100);
+        dispatchMidi(146, 62, 100);
+
+        expect(handler.mock.calls.map(([event]) => event.note)).toEqual([60, 62]);
+      });
+
+      it('should filter by input device', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler, { inputId: 'input2' });
+
+        dispatchMidi(144, 60, 100);
+        mockMIDIInput2.onmidimessage({ data: new Uint8Array([144, 62, 100]) });
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ note: 62 }));
+      });
+
+      it('should filter by note range', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler, { noteRange: [60, 71] });
+        HuMIDI.on('pitchbend', handler, { noteRange: [60, 71] });
+
+        dispatchMidi(144, 59, 100);
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(144, 71, 100);
+        dispatchMidi(144, 72, 100);
+        dispatchMidi(224, 0, 64);
+
+        expect(handler.mock.calls.map(([event]) => event.note)).toEqual([60, 71]);
+      });
+
+      it('should call once handlers for the first matching event only', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler, { channel: 1, once: true });
+
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 61, 100);
+        dispatchMidi(145, 62, 100);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ note: 61 }));
+      });
+
+      it('should remove handlers when the signal aborts', () => {
+        const handler = vi.fn();
+        const controller = new AbortController();
+        HuMIDI.on('noteon', handler, { signal: controller.signal });
+
+        dispatchMidi(144, 60, 100);
+        controller.abort();
+        dispatchMidi(144, 61, 100);
+        HuMIDI.on('noteon', handler, { signal: controller.signal });
+        dispatchMidi(144, 62, 100);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+      });
+
+      it('should return a function that removes the handler', () => {
+        const handler = vi.fn();
+        const channelHandler = vi.fn();
+        const unsubscribe = HuMIDI.on('noteon', handler, { channel: [0, 1] });
+        const unsubscribeChannel = HuMIDI.on('noteon', channelHandler, 0);
+
+        unsubscribe();
+        unsubscribeChannel();
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 60, 100);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(channelHandler).not.toHaveBeenCalled();
+      });
+
+      it('should only remove its own registration when unsubscribing', () => {
+        const handler = vi.fn();
+        const unsubscribe = HuMIDI.on('noteon', handler, { channel: 0 });
+        HuMIDI.on('noteon', handler, { inputId: 'input1' });
+
+        unsubscribe();
+        dispatchMidi(144, 60, 100);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+      });
+
+      it('should remove a handler from every channel when off is called without one', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler, 0);
+        HuMIDI.on('noteon', handler, { channel: [1, 2], noteRange: [0, 127] });
+        HuMIDI.on('noteon', handler);
+
+        HuMIDI.off('noteon', handler);
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 60, 100);
+        dispatchMidi(146, 60, 100);
+
+        expect(handler).not.toHaveBeenCalled();
+      });
+
+      it('should only remove a handler from the given channels', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler, { channel: [0, 1] });
+
+        HuMIDI.off('noteon', handler, { channel: 0 });
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 61, 100);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ note: 61 }));
+      });
+    });
+
     it('should handle multiple handlers for same event', () => {
       const handler1 = vi.fn();
       const handler2 = vi.fn();
@@ -233,12 +391,64 @@ describe('HuMIDI', () => {
 
           dispatchMidi(224, tc.lsb, tc.msb);
 
-          expect(handler).toHaveBeenCalledWith({
+          expect(handler).toHaveBeenCalledWith(expect.objectContaining({
             value: normalize14BitValue(tc.expected),
-          });
+          }));
         });
       });
 
+      it('should include the 14-bit value and semitones at the default range', () => {
+        const handler = vi.fn();
+        HuMIDI.on('pitchbend', handler);
+
+        dispatchMidi(224, 0, 96);
+        dispatchMidi(224, 0, 0);
+
+        expect(handler).toHaveBeenNthCalledWith(1, expect.objectContaining({ rawValue: 12288, semitones: 1 }));
+        expect(handler).toHaveBeenNthCalledWith(2, expect.objectContaining({ rawValue: 0, semitones: -2 }));
+      });
+
+      it('should scale semitones by the range of the channel and input', () => {
+        const handler = vi.fn();
+        HuMIDI.on('pitchbend', handler);
+
+        HuMIDI.setPitchBendRange(12);
+        HuMIDI.setPitchBendRange(24, { inputId: 'input1' });
+        HuMIDI.setPitchBendRange(48, { channel: 1, inputId: 'input1' });
+        HuMIDI.setPitchBendRange(7, { channel: 2 });
+
+        dispatchMidi(224, 0, 96);
+        dispatchMidi(225, 0, 96);
+        mockMIDIInput2.onmidimessage({ data: new Uint8Array([226, 0, 96]) });
+        mockMIDIInput2.onmidimessage({ data: new Uint8Array([227, 0, 96]) });
+
+        expect(handler.mock.calls.map(([event]) => event.semitones)).toEqual([12, 24, 3.5, 6]);
+        expect(HuMIDI.getPitchBendRange({ channel: 2, inputId: 'input1' })).toBe(24);
+      });
+
+      it('should update the range from pitch bend range RPN messages', () => {
+        const handler = vi.fn();
+        HuMIDI.on('pitchbend', handler);
+
+        [[101, 0], [100, 0], [6, 12], [38, 50]].forEach(([controller, value]) => {
+          dispatchMidi(176, controller, value);
+        });
+        dispatchMidi(224, 0, 96);
+        mockMIDIInput2.onmidimessage({ data: new Uint8Array([224, 0, 96]) });
+
+        expect(HuMIDI.getPitchBendRange({ channel: 0, inputId: 'input1' })).toBe(12.5);
+        expect(handler.mock.calls.map(([event]) => event.semitones)).toEqual([6.25, 1]);
+      });
+
+      it('should restore the default range on reset', () => {
+        HuMIDI.setPitchBendRange(12);
+        HuMIDI.setPitchBendRange(24, { channel: 0 });
+
+        HuMIDI.reset();
+
+        expect(HuMIDI.getPitchBendRange({ channel: 0 })).toBe(2);
+      });
+
       function normalize14BitValue(val: number): number {
         return (val - 8192) / 8192;
       }
@@ -251,9 +461,9 @@ describe('HuMIDI', () => {
 
         dispatchMidi(176, 64, 127);
 
-        expect(handler).toHaveBeenCalledWith({
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
           value: 127,
-        });
+        }));
       });
 
       it('should trigger sustainoff event when control value is less than 64', () => {
@@ -262,9 +472,9 @@ describe('HuMIDI', () => {
 
         dispatchMidi(176, 64, 0);
 
-        expect(handler).toHaveBeenCalledWith({
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
           value: 0,
-        });
+        }));
       });
 
       it('should handle sustain on boundary condition (value = 64)', () => {
@@ -275,7 +485,7 @@ describe('HuMIDI', () => {
 
         dispatchMidi(176, 64, 64);
 
-        expect(onHandler).toHaveBeenCalledWith({ value: 64 });
+        expect(onHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 64 }));
         expect(offHandler).not.toHaveBeenCalled();
       });
 
@@ -287,7 +497,7 @@ describe('HuMIDI', () => {
 
         dispatchMidi(176, 64, 63);
 
-        expect(offHandler).toHaveBeenCalledWith({ value: 63 });
+        expect(offHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 63 }));
         expect(onHandler).not.toHaveBeenCalled();
       });
 
@@ -303,8 +513,8 @@ describe('HuMIDI', () => {
         dispatchMidi(176, 64, 127);
         dispatchMidi(177, 64, 100);
 
-        expect(channel0Handler).toHaveBeenCalledWith({ value: 127 });
-        expect(channel1Handler).toHaveBeenCalledWith({ value: 100 });
+        expect(channel0Handler).toHaveBeenCalledWith(expect.objectContaining({ value: 127 }));
+        expect(channel1Handler).toHaveBeenCalledWith(expect.objectContaining({ value: 100 }));
         expect(allChannelsHandler).toHaveBeenCalledTimes(2);
       });
 
@@ -338,10 +548,513 @@ describe('HuMIDI', () => {
 
         expect(onHandler).toHaveBeenCalledTimes(2);
         expect(offHandler).toHaveBeenCalledTimes(2);
-        expect(onHandler).toHaveBeenNthCalledWith(1, { value: 127 });
-        expect(offHandler).toHaveBeenNthCalledWith(1, { value: 0 });
-        expect(onHandler).toHaveBeenNthCalledWith(2, { value: 100 });
-        expect(offHandler).toHaveBeenNthCalledWith(2, { value: 50 });
+        expect(onHandler).toHaveBeenNthCalledWith(1, expect.objectContaining({ value: 127 }));
+        expect(offHandler).toHaveBeenNthCalledWith(1, expect.objectContaining({ value: 0 }));
+        expect(onHandler).toHaveBeenNthCalledWith(2, expect.objectContaining({ value: 100 }));
+        expect(offHandler).toHaveBeenNthCalledWith(2, expect.objectContaining({ value: 50 }));
+      });
+    });
+
+    describe('active notes', () => {
+      it('should return held notes with velocity and start timestamp', () => {
+        dispatchMessage([144, 60, 100], 10);
+        dispatchMessage([145, 64, 80], 20);
+
+        expect(HuMIDI.getActiveNotes()).toEqual([
+          { note: 60, channel: 0, velocity: 100, timestamp: 10, deviceId: 'input1' },
+          { note: 64, channel: 1, velocity: 80, timestamp: 20, deviceId: 'input1' },
+        ]);
+        expect(HuMIDI.getActiveNotes({ channel: 1 })).toHaveLength(1);
+      });
+
+      it('should filter active notes by device', () => {
+        const input2 = (mockMIDIAccess.inputs.get('input2') as any);
+        dispatchMessage([144, 60, 100], 10);
+        input2.onmidimessage({ data: new Uint8Array([144, 67, 90]), timeStamp: 20 });
+
+        expect(HuMIDI.getActiveNotes({ deviceId: 'input2' }).map(n => n.note)).toEqual([67]);
+        expect(HuMIDI.getActiveNotes({ deviceId: 'input2', channel: 3 })).toEqual([]);
+        expect(HuMIDI.getActiveNotes({ deviceId: 'missing' })).toEqual([]);
+      });
+
+      it('should remove released notes', () => {
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(128, 60, 0);
+
+        expect(HuMIDI.getActiveNotes()).toEqual([]);
+      });
+
+      it('should check whether a note is active', () => {
+        dispatchMidi(146, 60, 100);
+
+        expect(HuMIDI.isNoteActive(60)).toBe(true);
+        expect(HuMIDI.isNoteActive(60, 2)).toBe(true);
+        expect(HuMIDI.isNoteActive(60, 0)).toBe(false);
+        expect(HuMIDI.isNoteActive(61)).toBe(false);
+      });
+    });
+
+    describe('panic', () => {
+      it('should release every tracked note', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 64, 100);
+
+        HuMIDI.panic();
+
+        expect(noteOffHandler.mock.calls.map(call => call[0].note).sort()).toEqual([60, 64]);
+        expect(HuMIDI.getActiveNotes()).toEqual([]);
+      });
+
+      it('should release sustained notes', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(176, 64, 127);
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(128, 60, 0);
+
+        HuMIDI.panic();
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(HuMIDI.getSoundingNotes()).toEqual([]);
+      });
+
+      it('should only release notes on the given channel', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 64, 100);
+
+        HuMIDI.panic({ channel: 1 });
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 64, sustained: false }));
+        expect(HuMIDI.getActiveNotes().map(n => n.note)).toEqual([60]);
+      });
+
+      it('should only release notes from the given device', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        const input2 = (mockMIDIAccess.inputs.get('input2') as any);
+        dispatchMidi(144, 60, 100);
+        input2.onmidimessage({ data: new Uint8Array([144, 67, 100]) });
+
+        HuMIDI.panic({ deviceId: 'input2' });
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 67, sustained: false }));
+        expect(HuMIDI.isNoteActive(60)).toBe(true);
+      });
+
+      it('should release notes on incoming all notes off and all sound off', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(145, 64, 100);
+        dispatchMidi(176, 123, 0);
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, sustained: false }));
+
+        dispatchMidi(177, 120, 0);
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(2);
+        expect(HuMIDI.getActiveNotes()).toEqual([]);
+      });
+
+      it('should only release notes of the input sending all notes off or all sound off', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(144, 60, 100);
+        mockMIDIInput2.onmidimessage({ data: new Uint8Array([144, 62, 100]) });
+        dispatchMidi(176, 123, 0);
+        dispatchMidi(176, 120, 0);
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60 }));
+        expect(HuMIDI.getActiveNotes({ deviceId: 'input2' }).map(n => n.note)).toEqual([62]);
+      });
+
+      it('should leave pedal-held notes to the pedal on all notes off but not on all sound off', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(176, 64, 127);
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(144, 64, 100);
+        dispatchMidi(128, 60, 0);
+        dispatchMidi(176, 123, 0);
+
+        expect(noteOffHandler).not.toHaveBeenCalled();
+        expect(HuMIDI.getActiveNotes()).toEqual([]);
+        expect(HuMIDI.getSoundingNotes()).toEqual([60, 64]);
+
+        dispatchMidi(176, 120, 0);
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(2);
+        expect(HuMIDI.getSoundingNotes()).toEqual([]);
+      });
+    });
+
+    describe('sustain-aware note tracking', () => {
+      it('should defer note off until the sustain pedal is released', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler, 0);
+
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(176, 64, 127);
+        dispatchMidi(128, 60, 0);
+
+        expect(noteOffHandler).not.toHaveBeenCalled();
+        expect(HuMIDI.isSustainOn(0)).toBe(true);
+
+        dispatchMidi(176, 64, 0);
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, sustained: true }));
+      });
+
+      it('should report held and sustained notes as sounding', () => {
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(144, 64, 100);
+        dispatchMidi(176, 64, 127);
+        dispatchMidi(128, 60, 0);
+        dispatchMidi(145, 48, 100);
+
+        expect(HuMIDI.getSoundingNotes(0)).toEqual([60, 64]);
+        expect(HuMIDI.getSoundingNotes()).toEqual([48, 60, 64]);
+
+        dispatchMidi(176, 64, 0);
+
+        expect(HuMIDI.getSoundingNotes(0)).toEqual([64]);
+      });
+
+      it('should not release notes that are held when the pedal is released', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(176, 64, 127);
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(128, 60, 0);
+        // re-strike the sustained note
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(176, 64, 0);
+
+        expect(noteOffHandler).not.toHaveBeenCalled();
+        expect(HuMIDI.getSoundingNotes(0)).toEqual([60]);
+      });
+
+      it('should only defer note offs on the sustained channel', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(177, 64, 127);
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(128, 60, 0);
+
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, sustained: false }));
+      });
+
+      it('should only hold notes played on the input whose pedal is down', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(176, 64, 127);
+        mockMIDIInput2.onmidimessage({ data: new Uint8Array([144, 60, 100]) });
+        mockMIDIInput2.onmidimessage({ data: new Uint8Array([128, 60, 0]) });
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, sustained: false }));
+        expect(HuMIDI.isSustainOn(0)).toBe(true);
+        expect(HuMIDI.isSustainOn(0, 'input1')).toBe(true);
+        expect(HuMIDI.isSustainOn(0, 'input2')).toBe(false);
+        expect(HuMIDI.getSoundingNotes(0)).toEqual([]);
+      });
+    });
+
+    describe('control change events', () => {
+      it('should emit controlchange for every controller with its name', () => {
+        const handler = vi.fn();
+        HuMIDI.on('controlchange', handler);
+
+        dispatchMidi(176, 1, 42);
+        dispatchMidi(176, 3, 10);
+
+        expect(handler).toHaveBeenNthCalledWith(1, expect.objectContaining({
+          controller: 1,
+          value: 42,
+          name: 'modulation',
+        }));
+        expect(handler).toHaveBeenNthCalledWith(2, expect.objectContaining({
+          controller: 3,
+          value: 10,
+          name: null,
+        }));
+      });
+
+      it('should emit named events for continuous controllers', () => {
+        const modulationHandler = vi.fn();
+        const volumeHandler = vi.fn();
+        const expressionHandler = vi.fn();
+        HuMIDI.on('modulation', modulationHandler);
+        HuMIDI.on('volume', volumeHandler, 0);
+        HuMIDI.on('expression', expressionHandler);
+
+        dispatchMidi(176, 1, 64);
+        dispatchMidi(176, 7, 100);
+        dispatchMidi(177, 11, 20);
+
+        expect(modulationHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 64 }));
+        expect(volumeHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 100 }));
+        expect(expressionHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 20 }));
+      });
+
+      it('should emit on/off events for sostenuto and soft pedals', () => {
+        const sostenutoOnHandler = vi.fn();
+        const softPedalOffHandler = vi.fn();
+        HuMIDI.on('sostenutoon', sostenutoOnHandler);
+        HuMIDI.on('softpedaloff', softPedalOffHandler);
+
+        dispatchMidi(176, 66, 127);
+        dispatchMidi(176, 67, 0);
+
+        expect(sostenutoOnHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 127 }));
+        expect(softPedalOffHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 0 }));
+      });
+
+      it('should emit channel mode events', () => {
+        const allSoundOffHandler = vi.fn();
+        const resetHandler = vi.fn();
+        const allNotesOffHandler = vi.fn();
+        HuMIDI.on('allsoundoff', allSoundOffHandler);
+        HuMIDI.on('resetallcontrollers', resetHandler);
+        HuMIDI.on('allnotesoff', allNotesOffHandler);
+
+        dispatchMidi(176, 120, 0);
+        dispatchMidi(176, 121, 0);
+        dispatchMidi(176, 123, 0);
+
+        expect(allSoundOffHandler).toHaveBeenCalledTimes(1);
+        expect(resetHandler).toHaveBeenCalledTimes(1);
+        expect(allNotesOffHandler).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('program change and aftertouch events', () => {
+      it('should emit programchange events', () => {
+        const handler = vi.fn();
+        HuMIDI.on('programchange', handler, 3);
+
+        dispatchMidi(195, 12, 0);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ program: 12 }));
+      });
+
+      it('should emit channelpressure events with normalized value', () => {
+        const handler = vi.fn();
+        HuMIDI.on('channelpressure', handler);
+
+        dispatchMidi(208, 127, 0);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ pressure: 127, value: 1 }));
+      });
+
+      it('should emit polyaftertouch events with note and pressure', () => {
+        const handler = vi.fn();
+        HuMIDI.on('polyaftertouch', handler, 1);
+
+        dispatchMidi(161, 60, 0);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, pressure: 0, value: 0 }));
+      });
+    });
+
+    describe('sysex events', () => {
+      it('should emit sysex events with manufacturer id and payload', () => {
+        const handler = vi.fn();
+        HuMIDI.on('sysex', handler);
+
+        dispatchMessage([0xf0, 0x41, 0x10, 0x42, 0xf7]);
+        dispatchMessage([0xf0, 0x00, 0x20, 0x29, 0x01, 0xf7]);
+
+        expect(handler).toHaveBeenNthCalledWith(1, expect.objectContaining({
+          manufacturerId: [0x41],
+          data: new Uint8Array([0x10, 0x42]),
+        }));
+        expect(handler).toHaveBeenNthCalledWith(2, expect.objectContaining({
+          manufacturerId: [0x00, 0x20, 0x29],
+          data: new Uint8Array([0x01]),
+        }));
+      });
+
+      it('should emit identityreply events for identity replies', () => {
+        const handler = vi.fn();
+        HuMIDI.on('identityreply', handler);
+
+        dispatchMessage([0xf0, 0x7e, 0x10, 0x06, 0x02, 0x43, 0x00, 0x41, 0x34, 0x02, 0x01, 0x00, 0x00, 0x00, 0xf7]);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+          deviceId: 0x10,
+          manufacturerId: [0x43],
+          family: 0x2080,
+          familyMember: 0x134,
+          version: [0x01, 0x00, 0x00, 0x00],
+        }));
+      });
+    });
+
+    describe('clock and transport events', () => {
+      it('should emit transport events', () => {
+        const startHandler = vi.fn();
+        const stopHandler = vi.fn();
+        const continueHandler = vi.fn();
+        HuMIDI.on('start', startHandler);
+        HuMIDI.on('stop', stopHandler);
+        HuMIDI.on('continue', continueHandler);
+
+        dispatchMessage([0xfa]);
+        dispatchMessage([0xfc]);
+        dispatchMessage([0xfb]);
+
+        expect(startHandler).toHaveBeenCalledWith(expect.objectContaining({ position: 0 }));
+        expect(stopHandler).toHaveBeenCalledWith(expect.objectContaining({ position: 0 }));
+        expect(continueHandler).toHaveBeenCalledWith(expect.objectContaining({ position: 0 }));
+        expect(HuMIDI.getClockState().running).toBe(true);
+      });
+
+      it('should emit songposition events', () => {
+        const handler = vi.fn();
+        HuMIDI.on('songposition', handler);
+
+        // 130 sixteenth notes
+        dispatchMessage([0xf2, 0x02, 0x01]);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ position: 130, beat: 32.5 }));
+        expect(HuMIDI.getClockState().position).toBe(130);
+      });
+
+      it('should emit beat events with tempo estimate from clock timestamps', () => {
+        const handler = vi.fn();
+        HuMIDI.on('beat', handler);
+
+        dispatchMessage([0xfa]);
+        for (let i = 0; i < 49; i++) {
+          dispatchMessage([0xf8], i * 25);
+        }
+
+        expect(handler).toHaveBeenCalledTimes(3);
+        expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({ beat: 2, bpm: 100 }));
+      });
+    });
+
+    describe('event metadata', () => {
+      it('should include timestamp, channel, input and raw bytes', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler);
+
+        dispatchMessage([146, 60, 100], 1234.5);
+
+        const input1 = HuMIDI.getInputs().find(input => input.id === 'input1');
+        expect(handler).toHaveBeenCalledWith({
+          note: 60,
+          velocity: 100,
+          mappedVelocity: 100,
+          zones: [],
+          timestamp: 1234.5,
+          channel: 2,
+          input: input1,
+          raw: new Uint8Array([146, 60, 100]),
+        });
+      });
+
+      it('should emit every supported message as a message event', () => {
+        const handler = vi.fn();
+        HuMIDI.on('message', handler);
+
+        dispatchMessage([146, 60, 100], 10);
+        dispatchMessage([248], 20);
+
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({
+          channel: -1,
+          timestamp: 20,
+          raw: new Uint8Array([248]),
+        }));
+      });
+
+      it('should process dispatched messages like received ones', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteon', handler);
+
+        HuMIDI.dispatch([145, 64, 90], 50);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+          note: 64,
+          channel: 1,
+          timestamp: 50,
+          input: null,
+        }));
+        expect(HuMIDI.isNoteActive(64, 1)).toBe(true);
+      });
+
+      it('should identify the input that sent the message', () => {
+        const handler = vi.fn();
+        HuMIDI.on('controlchange', handler);
+
+        const input2 = (mockMIDIAccess.inputs.get('input2') as any);
+        input2.onmidimessage({ data: new Uint8Array([176, 1, 10]), timeStamp: 5 });
+
+        expect(handler.mock.calls[0][0].input.id).toBe('input2');
+      });
+
+      it('should fall back to the current time when the message has no timestamp', () => {
+        const handler = vi.fn();
+        HuMIDI.on('pitchbend', handler);
+        vi.spyOn(performance, 'now').mockReturnValue(42);
+
+        dispatchMidi(224, 0, 64);
+
+        expect(handler.mock.calls[0][0].timestamp).toBe(42);
+        vi.mocked(performance.now).mockRestore();
+      });
+
+      it('should use channel -1 for system messages', () => {
+        const handler = vi.fn();
+        HuMIDI.on('start', handler);
+
+        dispatchMessage([0xfa], 10);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+          channel: -1,
+          timestamp: 10,
+          raw: new Uint8Array([0xfa]),
+        }));
+      });
+
+      it('should synthesize raw bytes for deferred note offs', () => {
+        const handler = vi.fn();
+        HuMIDI.on('noteoff', handler);
+
+        dispatchMessage([145, 60, 100], 1);
+        dispatchMessage([177, 64, 127], 2);
+        dispatchMessage([145, 60, 0], 3);
+        dispatchMessage([177, 64, 0], 4);
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+          note: 60,
+          sustained: true,
+          timestamp: 4,
+          channel: 1,
+          raw: new Uint8Array([129, 60, 0]),
+        }));
+        expect(handler.mock.calls[0][0].input.id).toBe('input1');
       });
     });
 
@@ -384,6 +1097,123 @@ describe('HuMIDI', () => {
     });
   });
 
+  describe('instances', () => {
+    let instances: ReturnType<typeof createHuMIDI>[] = [];
+    const createInstance = () => {
+      const instance = createHuMIDI();
+      instances.push(instance);
+      return instance;
+    };
+
+    beforeEach(() => {
+      (navigator.requestMIDIAccess as any).mockResolvedValue(mockMIDIAccess);
+    });
+
+    afterEach(() => {
+      instances.forEach(instance => instance.reset());
+      instances = [];
+    });
+
+    it('should share one MIDI access between instances', async () => {
+      const first = createInstance();
+      const second = createInstance();
+
+      await Promise.all([first.requestAccess(), second.requestAccess(), HuMIDI.requestAccess()]);
+
+      expect(navigator.requestMIDIAccess).toHaveBeenCalledTimes(1);
+      expect(first.getAccessStatus()).toBe(AccessStatus.ACCEPTED);
+      expect(second.getInputs()).toHaveLength(2);
+    });
+
+    it('should deliver messages to every instance with isolated handlers', async () => {
+      const first = createInstance();
+      const second = createInstance();
+      await first.requestAccess();
+      await second.requestAccess();
+
+      const firstHandler = vi.fn();
+      const secondHandler = vi.fn();
+      first.on('noteon', firstHandler);
+      second.on('noteoff', secondHandler);
+
+      dispatchMidi(144, 60, 100);
+
+      expect(firstHandler).toHaveBeenCalledTimes(1);
+      expect(secondHandler).not.toHaveBeenCalled();
+      expect(second.isNoteActive(60)).toBe(true);
+    });
+
+    it('should keep enable state and input filters per instance', async () => {
+      const first = createInstance();
+      const second = createInstance();
+      await first.requestAccess();
+      await second.requestAccess();
+
+      const firstHandler = vi.fn();
+      const secondHandler = vi.fn();
+      first.on('noteon', firstHandler);
+      second.on('noteon', secondHandler);
+
+      first.getInputs().find(input => input.id === 'input1')?.disable();
+      dispatchMidi(144, 60, 100);
+      second.setEnabled(false);
+      dispatchMidi(144, 62, 100);
+
+      expect(firstHandler).not.toHaveBeenCalled();
+      expect(secondHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep an instance disabled when another instance upgrades to sysex', async () => {
+      const first = createInstance();
+      const second = createInstance();
+      await first.requestAccess();
+      first.setEnabled(false);
+
+      const handler = vi.fn();
+      first.on('noteon', handler);
+      await second.requestAccess({ sysex: true });
+      dispatchMidi(144, 60, 100);
+
+      expect(navigator.requestMIDIAccess).toHaveBeenCalledTimes(2);
+      expect(first.isEnabled()).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+      expect(second.isEnabled()).toBe(true);
+    });
+
+    it('should only reset the instance it is called on', async () => {
+      const first = createInstance();
+      await first.requestAccess();
+      await HuMIDI.requestAccess();
+
+      const firstHandler = vi.fn();
+      const defaultHandler = vi.fn();
+      first.on('noteon', firstHandler);
+      HuMIDI.on('noteon', defaultHandler);
+
+      first.reset();
+      dispatchMidi(144, 60, 100);
+
+      expect(firstHandler).not.toHaveBeenCalled();
+      expect(defaultHandler).toHaveBeenCalledTimes(1);
+      expect(first.getAccessStatus()).toBe(AccessStatus.ACCEPTED);
+    });
+
+    it('should keep other instances receiving messages after a static reset', async () => {
+      const first = createInstance();
+      await first.requestAccess();
+      await HuMIDI.requestAccess();
+
+      const firstHandler = vi.fn();
+      first.on('noteon', firstHandler);
+
+      HuMIDI.reset();
+      dispatchMidi(144, 60, 100);
+
+      expect(firstHandler).toHaveBeenCalledTimes(1);
+      expect(first.getAccessStatus()).toBe(AccessStatus.ACCEPTED);
+    });
+  });
+
   describe('hasPermissions', () => {
     it('should return true when permissions are granted', async () => {
       (navigator.permissions.query as any).mockResolvedValue({ state: 'granted' });
@@ -503,10 +1333,10 @@ describe('HuMIDI', () => {
         data: new Uint8Array([144, 60, 100])
       });
 
-      expect(handler).toHaveBeenCalledWith({
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
         note: 60,
         velocity: 100,
-      });
+      }));
     });
   });
 
@@ -698,11 +1528,78 @@ describe('HuMIDI', () => {
         dispatchMidi(144, 60, 100);
 
         // Now it should work
-        expect(noteHandler).toHaveBeenCalledWith({
+        expect(noteHandler).toHaveBeenCalledWith(expect.objectContaining({
           note: 60,
           velocity: 100,
+        }));
+      });
+    });
+
+    describe('outputs', () => {
+      it('should return list of output devices', () => {
+        const outputs = HuMIDI.getOutputs();
+
+        expect(outputs).toHaveLength(1);
+        expect(outputs[0].id).toBe('output1');
+        expect(outputs[0].name).toBe('Test Output');
+        expect(outputs[0].manufacturer).toBe('Test Manufacturer');
+        expect(outputs[0].state).toBe('connected');
+      });
+
+      it('should send note messages on the given channel', () => {
+        const [output] = HuMIDI.getOutputs();
+
+        output.noteOn(60, 100, 2);
+        output.noteOff(60);
+
+        expect(mockMIDIOutput.send).toHaveBeenNthCalledWith(1, [146, 60, 100], undefined);
+        expect(mockMIDIOutput.send).toHaveBeenNthCalledWith(2, [128, 60, 0], undefined);
+      });
+
+      it('should send control change and scheduled raw messages', () => {
+        const [output] = HuMIDI.getOutputs();
+
+        output.controlChange(64, 127, 1);
+        output.send(new Uint8Array([144, 62, 90]), 1000);
+
+        expect(mockMIDIOutput.send).toHaveBeenNthCalledWith(1, [177, 64, 127], undefined);
+        expect(mockMIDIOutput.send).toHaveBeenNthCalledWith(2, [144, 62, 90], 1000);
+      });
+
+      testCases.forEach(tc => {
+        it(`should encode pitch bend: ${tc.description}`, () => {
+          const [output] = HuMIDI.getOutputs();
+
+          output.pitchBend((tc.expected - 8192) / 8192);
+
+          expect(mockMIDIOutput.send).toHaveBeenCalledWith([224, tc.lsb, tc.msb], undefined);
         });
       });
+
+      it('should emit output connection events', () => {
+        const connectedHandler = vi.fn();
+        const disconnectedHandler = vi.fn();
+        HuMIDI.on('outputconnected', connectedHandler);
+        HuMIDI.on('outputdisconnected', disconnectedHandler);
+
+        const port = {
+          id: 'newoutput',
+          name: 'New Output Device',
+          manufacturer: 'New Manufacturer',
+          type: 'output',
+          state: 'connected',
+          send: vi.fn(),
+        };
+
+        mockMIDIAccess.onstatechange({ port });
+        port.state = 'disconnected';
+        mockMIDIAccess.onstatechange({ port });
+
+        expect(connectedHandler).toHaveBeenCalledTimes(1);
+        expect(connectedHandler.mock.calls[0][0].output.name).toBe('New Output Device');
+        expect(disconnectedHandler).toHaveBeenCalledTimes(1);
+        expect(HuMIDI.getOutputs().map(output => output.id)).toContain('newoutput');
+      });
     });
 
     describe('per-device note tracking', () => {
@@ -737,7 +1634,32 @@ describe('HuMIDI', () => {
 
         // Should only send note off for device 1's note, not device 2's
         expect(noteOffHandler).toHaveBeenCalledTimes(1);
-        expect(noteOffHandler).toHaveBeenCalledWith({ note: 60 });
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, sustained: false }));
+      });
+
+      it('should release pedal-held notes of a device unplugged with the pedal down', () => {
+        const noteOffHandler = vi.fn();
+        HuMIDI.on('noteoff', noteOffHandler);
+
+        dispatchMidi(176, 64, 127);
+        dispatchMidi(144, 60, 100);
+        dispatchMidi(128, 60, 0);
+        expect(noteOffHandler).not.toHaveBeenCalled();
+
+        mockMIDIAccess.onstatechange({
+          port: {
+            id: 'input1',
+            name: 'Test Input 1',
+            manufacturer: 'Test Manufacturer',
+            type: 'input',
+            state: 'disconnected',
+          },
+        });
+
+        expect(noteOffHandler).toHaveBeenCalledTimes(1);
+        expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60 }));
+        expect(HuMIDI.getSoundingNotes()).toEqual([]);
+        expect(HuMIDI.isSustainOn(0)).toBe(false);
       });
 
       it('should handle multiple notes on same channel from different devices', () => {
@@ -914,6 +1836,14 @@ describe('HuMIDI', () => {
 
 });
 
+function dispatchMessage(data: number[], timeStamp?: number) {
+  const input1 = (mockMIDIAccess.inputs.get('input1') as any);
+  input1?.onmidimessage?.({
+    data: new Uint8Array(data),
+    timeStamp,
+  });
+}
+
 function dispatchMidi(status: number, data1: number, data2: number) {
   const input1 = (mockMIDIAccess.inputs.get('input1') as any);
   if (input1?.onmidimessage) {
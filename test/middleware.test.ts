@@ -0,0 +1,125 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+} from 'vitest';
+import HuMIDI from '@/humidi';
+import {
+  applyMiddleware,
+  filterTypes,
+  noteRange,
+  remapChannel,
+  scaleVelocity,
+  transpose,
+} from '@/middleware';
+
+
+const message = (...raw: number[]) => ({ timestamp: 0, input: null, raw: Uint8Array.from(raw) });
+const rawOf = (middleware: Parameters<typeof applyMiddleware>[0], ...raw: number[]) =>
+  applyMiddleware(middleware, message(...raw)).map(result => Array.from(result.raw));
+
+
+describe('middleware', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+  });
+
+  describe('built-in transforms', () => {
+    it('should transpose note messages and drop notes out of range', () => {
+      expect(rawOf([transpose(12)], 0x90, 60, 100)).toEqual([[0x90, 72, 100]]);
+      expect(rawOf([transpose(-2)], 0xa1, 60, 30)).toEqual([[0xa1, 58, 30]]);
+      expect(rawOf([transpose(12)], 0xb0, 60, 100)).toEqual([[0xb0, 60, 100]]);
+      expect(rawOf([transpose(12)], 0x80, 120, 0)).toEqual([]);
+    });
+
+    it('should remap channels', () => {
+      expect(rawOf([remapChannel({ 0: 9 })], 0x90, 36, 100)).toEqual([[0x99, 36, 100]]);
+      expect(rawOf([remapChannel({ 0: 9 })], 0xc1, 5)).toEqual([[0xc1, 5]]);
+      expect(rawOf([remapChannel(channel => channel + 1)], 0xe0, 0, 64)).toEqual([[0xe1, 0, 64]]);
+      expect(rawOf([remapChannel(() => 3)], 0xf8)).toEqual([[0xf8]]);
+    });
+
+    it('should scale note on velocities without turning them into note offs', () => {
+      expect(rawOf([scaleVelocity(0.5)], 0x90, 60, 100)).toEqual([[0x90, 60, 50]]);
+      expect(rawOf([scaleVelocity(2)], 0x90, 60, 100)).toEqual([[0x90, 60, 127]]);
+      expect(rawOf([scaleVelocity(0)], 0x90, 60, 100)).toEqual([[0x90, 60, 1]]);
+      expect(rawOf([scaleVelocity(() => 64)], 0x90, 60, 0)).toEqual([[0x90, 60, 0]]);
+      expect(rawOf([scaleVelocity(0.5)], 0x80, 60, 100)).toEqual([[0x80, 60, 100]]);
+    });
+
+    it('should filter notes by range', () => {
+      expect(rawOf([noteRange(48, 72)], 0x90, 48, 100)).toHaveLength(1);
+      expect(rawOf([noteRange(48, 72)], 0x80, 73, 0)).toHaveLength(0);
+      expect(rawOf([noteRange(48, 72)], 0xb0, 1, 100)).toHaveLength(1);
+    });
+
+    it('should keep or drop message types', () => {
+      expect(rawOf([filterTypes(['noteon', 'noteoff'])], 0x90, 60, 100)).toHaveLength(1);
+      expect(rawOf([filterTypes(['noteon', 'noteoff'])], 0xb0, 1, 100)).toHaveLength(0);
+      expect(rawOf([filterTypes(['clock'], true)], 0xf8)).toHaveLength(0);
+      expect(rawOf([filterTypes(['clock'], true)], 0x90, 60, 100)).toHaveLength(1);
+    });
+
+    it('should not modify the original message', () => {
+      const original = message(0x90, 60, 100);
+      applyMiddleware([transpose(1), scaleVelocity(0.5)], original);
+
+      expect(Array.from(original.raw)).toEqual([0x90, 60, 100]);
+    });
+  });
+
+  describe('use', () => {
+    it('should apply stages in order before events are emitted', () => {
+      const handler = vi.fn();
+      HuMIDI.on('noteon', handler);
+      HuMIDI.use(transpose(12));
+      HuMIDI.use(noteRange(0, 70));
+
+      HuMIDI.dispatch([0x90, 55, 100]);
+      HuMIDI.dispatch([0x90, 60, 100]);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+        note: 67,
+        raw: new Uint8Array([0x90, 67, 100]),
+      }));
+    });
+
+    it('should track notes after the middleware chain', () => {
+      HuMIDI.use(remapChannel({ 0: 5 }));
+
+      HuMIDI.dispatch([0x90, 60, 100]);
+      expect(HuMIDI.isNoteActive(60, 5)).toBe(true);
+      expect(HuMIDI.isNoteActive(60, 0)).toBe(false);
+
+      HuMIDI.dispatch([0x80, 60, 0]);
+      expect(HuMIDI.getActiveNotes()).toEqual([]);
+    });
+
+    it('should fan out and drop messages', () => {
+      const handler = vi.fn();
+      HuMIDI.on('noteon', handler);
+      HuMIDI.use(msg => [msg, { ...msg, raw: Uint8Array.from([msg.raw[0], msg.raw[1] + 7, msg.raw[2]]) }]);
+      HuMIDI.use(msg => (msg.raw[1] === 67 ? msg : null));
+
+      HuMIDI.dispatch([0x90, 60, 100]);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].note).toBe(67);
+    });
+
+    it('should remove stages', () => {
+      const handler = vi.fn();
+      HuMIDI.on('noteon', handler);
+      const remove = HuMIDI.use(() => null);
+
+      HuMIDI.dispatch([0x90, 60, 100]);
+      remove();
+      HuMIDI.dispatch([0x90, 60, 100]);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { parseMIDIFile, ticksToSeconds } from '@/midiFile';
+
+
+const toBytes = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const chunk = (type: string, bytes: number[]) => [...toBytes(type), ...uint32(bytes.length), ...bytes];
+const header = (format: number, trackCount: number, division: number) =>
+  chunk('MThd', [0, format, 0, trackCount, division >> 8, division & 0xff]);
+const createFile = (format: number, division: number, tracks: number[][]) =>
+  Uint8Array.from([...header(format, tracks.length, division), ...tracks.flatMap(track => chunk('MTrk', track))]);
+
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00];
+
+
+describe('parseMIDIFile', () => {
+  it('should parse a format 0 file with running status', () => {
+    const file = parseMIDIFile(createFile(0, 96, [[
+      0x00, 0xff, 0x03, 0x04, ...toBytes('Lead'),
+      0x00, 0x90, 60, 100,
+      0x00, 64, 90, // running status
+      0x60, 60, 0, // note on with zero velocity
+      0x00, 0x80, 64, 40,
+      ...END_OF_TRACK,
+    ]]));
+
+    expect(file.format).toBe(0);
+    expect(file.ticksPerBeat).toBe(96);
+    expect(file.tracks).toHaveLength(1);
+    expect(file.tracks[0].name).toBe('Lead');
+
+    const noteEvents = file.tracks[0].events.filter(event => event.type !== 'meta');
+    expect(noteEvents).toEqual([
+      expect.objectContaining({ type: 'noteon', note: 60, velocity: 100, channel: 0, tick: 0, time: 0 }),
+      expect.objectContaining({ type: 'noteon', note: 64, velocity: 90, raw: new Uint8Array([0x90, 64, 90]) }),
+      expect.objectContaining({ type: 'noteoff', note: 60, sustained: false, tick: 96, time: 0.5, timestamp: 500 }),
+      expect.objectContaining({ type: 'noteoff', note: 64, tick: 96, input: null }),
+    ]);
+    expect(file.duration).toBe(0.5);
+  });
+
+  it('should apply tempo changes from the first track to every track of a format 1 file', () => {
+    const file = parseMIDIFile(createFile(1, 480, [
+      [
+        0x00, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40, // 1,000,000 µs per beat (60 bpm)
+        0x00, 0xff, 0x58, 0x04, 3, 2, 24, 8, // 3/4
+        0x83, 0x60, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20, // 500,000 µs per beat at tick 480
+        ...END_OF_TRACK,
+      ],
+      [
+        0x87, 0x40, 0x91, 72, 80, // tick 960
+        ...END_OF_TRACK,
+      ],
+    ]));
+
+    expect(file.tempos).toEqual([
+      { tick: 0, time: 0, microsecondsPerBeat: 1000000, bpm: 60 },
+      { tick: 480, time: 1, microsecondsPerBeat: 500000, bpm: 120 },
+    ]);
+    expect(file.timeSignatures).toEqual([{
+      tick: 0,
+      time: 0,
+      numerator: 3,
+      denominator: 4,
+      clocksPerClick: 24,
+      thirtySecondNotesPerBeat: 8,
+    }]);
+    expect(file.tracks[1].events[0]).toEqual(expect.objectContaining({
+      type: 'noteon',
+      channel: 1,
+      tick: 960,
+      time: 1.5,
+    }));
+    expect(ticksToSeconds(720, file.tempos, file.ticksPerBeat)).toBe(1.25);
+  });
+
+  it('should use separate tempo maps for the tracks of a format 2 file', () => {
+    const file = parseMIDIFile(createFile(2, 100, [
+      [0x00, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40, 0x64, 0x90, 60, 100, ...END_OF_TRACK],
+      [0x64, 0x90, 60, 100, ...END_OF_TRACK],
+    ]));
+
+    expect(file.tracks[0].events[1].time).toBe(1);
+    expect(file.tracks[1].events[0].time).toBe(0.5);
+  });
+
+  it('should convert ticks to seconds in SMPTE timed files', () => {
+    // 25 frames per second, 40 ticks per frame
+    const file = parseMIDIFile(createFile(0, 0xe728, [[0x87, 0x68, 0x90, 60, 100, ...END_OF_TRACK]]));
+
+    expect(file.ticksPerBeat).toBeNull();
+    expect(file.smpte).toEqual({ framesPerSecond: 25, ticksPerFrame: 40 });
+    expect(file.tracks[0].events[0].time).toBe(1);
+  });
+
+  it('should decode controller, pitch bend, program and sysex events', () => {
+    const file = parseMIDIFile(createFile(0, 96, [[
+      0x00, 0xb0, 64, 127,
+      0x00, 64, 0,
+      0x00, 0xb0, 7, 100,
+      0x00, 0xe0, 0, 96,
+      0x00, 0xc2, 5,
+      0x00, 0xf0, 0x05, 0x7e, 0x7f, 0x09, 0x01, 0xf7,
+      0x00, 0xff, 0x01, 0x02, ...toBytes('hi'),
+      ...END_OF_TRACK,
+    ]]));
+
+    expect(file.tracks[0].events).toEqual([
+      expect.objectContaining({ type: 'sustainon', value: 127 }),
+      expect.objectContaining({ type: 'sustainoff', value: 0 }),
+      expect.objectContaining({ type: 'controlchange', controller: 7, value: 100, name: 'volume' }),
+      expect.objectContaining({ type: 'pitchbend', value: 0.5 }),
+      expect.objectContaining({ type: 'programchange', program: 5, channel: 2 }),
+      expect.objectContaining({
+        type: 'sysex',
+        channel: -1,
+        manufacturerId: [0x7e],
+        data: new Uint8Array([0x7f, 0x09, 0x01]),
+        raw: new Uint8Array([0xf0, 0x7e, 0x7f, 0x09, 0x01, 0xf7]),
+      }),
+      expect.objectContaining({ type: 'meta', name: 'text', text: 'hi' }),
+      expect.objectContaining({ type: 'meta', name: 'endoftrack', raw: new Uint8Array([0xff, 0x2f, 0x00]) }),
+    ]);
+  });
+
+  it('should reject invalid files', () => {
+    expect(() => parseMIDIFile(Uint8Array.from(toBytes('RIFF')))).toThrow('missing header chunk');
+    expect(() => parseMIDIFile(createFile(0, 0, [[0x00, 0x90, 60, 100]]))).toThrow('division of 0 ticks');
+    expect(() => parseMIDIFile(createFile(0, 0xe700, [[0x00, 0x90, 60, 100]]))).toThrow('division of 0 ticks');
+    expect(() => parseMIDIFile(createFile(0, 96, [[0x00, 60, 100]]))).toThrow('data byte without status');
+    expect(() => parseMIDIFile(createFile(0, 96, [[0x00, 0x90, 60]]))).toThrow('unexpected end of data');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { parseMIDIFile } from '@/midiFile';
+import { writeMIDIFile } from '@/midiFileWriter';
+
+
+const message = (timestamp: number, ...raw: number[]) => ({ timestamp, raw: Uint8Array.from(raw) });
+
+
+describe('writeMIDIFile', () => {
+  it('should write a format 0 file that parses back to the same events', () => {
+    const file = writeMIDIFile([
+      message(1000, 0x90, 60, 100),
+      message(1250, 0xb0, 64, 127),
+      message(1500, 0x80, 60, 0),
+      message(2000, 0xb0, 64, 0),
+    ], { ticksPerBeat: 96, bpm: 120, name: 'Take 1' });
+
+    const parsed = parseMIDIFile(file);
+    expect(parsed.format).toBe(0);
+    expect(parsed.ticksPerBeat).toBe(96);
+    expect(parsed.tracks).toHaveLength(1);
+    expect(parsed.tracks[0].name).toBe('Take 1');
+    expect(parsed.tempos).toEqual([{ tick: 0, time: 0, microsecondsPerBeat: 500000, bpm: 120 }]);
+    expect(parsed.tracks[0].events.filter(event => event.type !== 'meta')).toEqual([
+      expect.objectContaining({ type: 'noteon', note: 60, tick: 0, time: 0 }),
+      expect.objectContaining({ type: 'sustainon', tick: 48, time: 0.25 }),
+      expect.objectContaining({ type: 'noteoff', note: 60, tick: 96, time: 0.5 }),
+      expect.objectContaining({ type: 'sustainoff', tick: 192, time: 1 }),
+    ]);
+  });
+
+  it('should quantize timestamps to the configured resolution', () => {
+    const file = writeMIDIFile([
+      message(0, 0x90, 60, 100),
+      message(130, 0x80, 60, 0),
+    ], { ticksPerBeat: 4, bpm: 60, startTime: 0 });
+
+    const [, noteOff] = parseMIDIFile(file).tracks[0].events.filter(event => event.type !== 'meta');
+    // A tick lasts 250ms, so 130ms rounds to the first tick
+    expect(noteOff).toEqual(expect.objectContaining({ tick: 1, time: 0.25 }));
+  });
+
+  it('should write a format 1 file with a tempo track and named tracks', () => {
+    const file = writeMIDIFile([
+      { name: 'Piano', events: [message(0, 0x90, 60, 100), message(500, 0x80, 60, 0)] },
+      { name: 'Bass', events: [message(250, 0x91, 36, 90), message(750, 0x81, 36, 0)] },
+    ], { bpm: 60, timeSignature: { numerator: 6, denominator: 8 } });
+
+    const parsed = parseMIDIFile(file);
+    expect(parsed.format).toBe(1);
+    expect(parsed.tracks.map(track => track.name)).toEqual([null, 'Piano', 'Bass']);
+    expect(parsed.tempos[0].bpm).toBe(60);
+    expect(parsed.timeSignatures).toEqual([expect.objectContaining({ numerator: 6, denominator: 8 })]);
+    expect(parsed.tracks[2].events).toEqual([
+      expect.objectContaining({ type: 'meta', name: 'trackname' }),
+      expect.objectContaining({ type: 'noteon', channel: 1, time: 0.25 }),
+      expect.objectContaining({ type: 'noteoff', channel: 1, time: 0.75 }),
+      expect.objectContaining({ type: 'meta', name: 'endoftrack', time: 0.75 }),
+    ]);
+  });
+
+  it('should write sysex and skip messages that cannot be stored in a file', () => {
+    const file = writeMIDIFile([
+      message(0, 0xf8),
+      message(0, 0xf0, 0x7e, 0x7f, 0x09, 0x01, 0xf7),
+      message(0, 0xfa),
+    ]);
+
+    expect(parseMIDIFile(file).tracks[0].events.filter(event => event.type !== 'meta')).toEqual([
+      expect.objectContaining({ type: 'sysex', raw: new Uint8Array([0xf0, 0x7e, 0x7f, 0x09, 0x01, 0xf7]) }),
+    ]);
+  });
+
+  it('should write parsed files back without duplicating tempo and end of track events', () => {
+    const original = writeMIDIFile([message(0, 0x90, 60, 100), message(500, 0x80, 60, 0)]);
+    const events = parseMIDIFile(original).tracks[0].events;
+
+    expect(writeMIDIFile(events)).toEqual(original);
+  });
+});
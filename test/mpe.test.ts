@@ -0,0 +1,250 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+} from 'vitest';
+import HuMIDI from '@/humidi';
+import { configureMPEZone, createMPEZones, findMPEZone } from '@/mpe';
+
+
+describe('MPE zones', () => {
+  it('should create lower and upper zones', () => {
+    expect(createMPEZones({ lower: 3, upper: 2 })).toEqual([
+      { type: 'lower', managerChannel: 0, memberChannels: [1, 2, 3] },
+      { type: 'upper', managerChannel: 15, memberChannels: [14, 13] },
+    ]);
+    expect(createMPEZones({ lower: 15 })[0].memberChannels).toHaveLength(15);
+    expect(createMPEZones({})).toEqual([]);
+  });
+
+  it('should shrink the other zone when a configured zone overlaps it', () => {
+    const zones = createMPEZones({ lower: 7, upper: 7 });
+
+    const upperGrown = configureMPEZone(zones, 'upper', 10);
+    expect(upperGrown.map(zone => zone.memberChannels.length)).toEqual([4, 10]);
+
+    expect(configureMPEZone(zones, 'lower', 15)).toEqual([
+      expect.objectContaining({ type: 'lower', memberChannels: expect.arrayContaining([1, 15]) }),
+    ]);
+    expect(configureMPEZone(zones, 'upper', 0)).toEqual([zones[0]]);
+  });
+
+  it('should resolve overlapping configurations in favor of the upper zone', () => {
+    expect(createMPEZones({ lower: 10, upper: 10 }).map(zone => zone.memberChannels.length)).toEqual([4, 10]);
+  });
+
+  it('should find the zone of manager and member channels', () => {
+    const zones = createMPEZones({ lower: 3, upper: 2 });
+
+    expect(findMPEZone(zones, 0)?.type).toBe('lower');
+    expect(findMPEZone(zones, 3)?.type).toBe('lower');
+    expect(findMPEZone(zones, 13)?.type).toBe('upper');
+    expect(findMPEZone(zones, 8)).toBeNull();
+  });
+});
+
+describe('MPE mode', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+  });
+
+  it('should be off by default', () => {
+    const handler = vi.fn();
+    HuMIDI.on('noteexpression', handler);
+
+    HuMIDI.dispatch([0x91, 60, 100]);
+    HuMIDI.dispatch([0xe1, 0, 96]);
+
+    expect(HuMIDI.isMPEEnabled()).toBe(false);
+    expect(HuMIDI.getMPEZones()).toEqual([]);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should emit the expression of a note when it is pressed', () => {
+    const handler = vi.fn();
+    HuMIDI.setMPEMode({ lower: 15 });
+    HuMIDI.on('noteexpression', handler);
+
+    // controllers send the initial expression before the note on
+    HuMIDI.dispatch([0xb1, 74, 127]);
+    HuMIDI.dispatch([0xd1, 0]);
+    HuMIDI.dispatch([0x91, 60, 100]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+      noteId: 0,
+      note: 60,
+      channel: 1,
+      pitchBend: 0,
+      timbre: 1,
+      pressure: 0,
+    }));
+  });
+
+  it('should apply member channel messages to the note on that channel', () => {
+    const handler = vi.fn();
+    HuMIDI.setMPEMode({ lower: 15 });
+    HuMIDI.dispatch([0x91, 60, 100]);
+    HuMIDI.dispatch([0x92, 64, 100]);
+    HuMIDI.on('noteexpression', handler);
+
+    // a quarter of the 48 semitone member range
+    HuMIDI.dispatch([0xe2, 0, 80]);
+    HuMIDI.dispatch([0xd2, 127]);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({
+      noteId: 1,
+      note: 64,
+      channel: 2,
+      pitchBend: 12,
+      timbre: 0.5,
+      pressure: 1,
+    }));
+  });
+
+  it('should start the next note on a member channel with the default expression', () => {
+    const handler = vi.fn();
+    HuMIDI.setMPEMode({ lower: 15 });
+    HuMIDI.on('noteexpression', handler);
+
+    HuMIDI.dispatch([0x91, 60, 100]);
+    HuMIDI.dispatch([0xe1, 0, 96]);
+    HuMIDI.dispatch([0xb1, 74, 127]);
+    HuMIDI.dispatch([0xd1, 64]);
+    HuMIDI.dispatch([0x81, 60, 0]);
+    HuMIDI.dispatch([0x91, 62, 100]);
+
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({
+      noteId: 1,
+      note: 62,
+      pitchBend: 0,
+      timbre: 0.5,
+      pressure: 0,
+    }));
+  });
+
+  it('should keep the expression of a note held by the sustain pedal', () => {
+    const handler = vi.fn();
+    HuMIDI.setMPEMode({ lower: 15 });
+    HuMIDI.on('noteexpression', handler);
+
+    HuMIDI.dispatch([0xb1, 64, 127]);
+    HuMIDI.dispatch([0x91, 60, 100]);
+    HuMIDI.dispatch([0xe1, 0, 96]);
+    HuMIDI.dispatch([0x81, 60, 0]);
+    HuMIDI.dispatch([0xd1, 64]);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({
+      noteId: 0,
+      note: 60,
+      pitchBend: 24,
+      pressure: 64 / 127,
+    }));
+
+    // the next note starts fresh once the pedal lets the note go
+    HuMIDI.dispatch([0xb1, 64, 0]);
+    HuMIDI.dispatch([0x91, 62, 100]);
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({
+      noteId: 1,
+      note: 62,
+      pitchBend: 0,
+      pressure: 0,
+    }));
+  });
+
+  it('should add manager channel pitch bend to every note in the zone', () => {
+    const handler = vi.fn();
+    HuMIDI.setMPEMode({ lower: 7, upper: 7 });
+    HuMIDI.dispatch([0x91, 60, 100]);
+    HuMIDI.dispatch([0x92, 64, 100]);
+    HuMIDI.dispatch([0x9e, 72, 100]);
+    HuMIDI.dispatch([0xe1, 0, 80]);
+    HuMIDI.on('noteexpression', handler);
+
+    // full bend up on the lower manager channel, 2 semitones by default
+    HuMIDI.dispatch([0xe0, 127, 127]);
+    // manager channel pressure leaves the notes alone
+    HuMIDI.dispatch([0xd0, 100]);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    const [first, second] = handler.mock.calls.map(([event]) => event);
+    expect(first).toMatchObject({ note: 60, pitchBend: 12 + 8191 / 8192 * 2 });
+    expect(second).toMatchObject({ note: 64, pitchBend: 8191 / 8192 * 2 });
+  });
+
+  it('should ignore messages outside the zones', () => {
+    const handler = vi.fn();
+    HuMIDI.setMPEMode({ lower: 3 });
+    HuMIDI.on('noteexpression', handler);
+
+    HuMIDI.dispatch([0x98, 60, 100]);
+    HuMIDI.dispatch([0xe8, 0, 96]);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(HuMIDI.getPitchBendRange({ channel: 8 })).toBe(2);
+  });
+
+  it('should use MPE pitch bend ranges unless a range is set', () => {
+    HuMIDI.setMPEMode({ lower: 15 });
+
+    expect(HuMIDI.getPitchBendRange({ channel: 0 })).toBe(2);
+    expect(HuMIDI.getPitchBendRange({ channel: 1 })).toBe(48);
+
+    HuMIDI.setPitchBendRange(24, { channel: 1 });
+    expect(HuMIDI.getPitchBendRange({ channel: 1 })).toBe(24);
+
+    HuMIDI.setMPEMode(null);
+    expect(HuMIDI.getPitchBendRange({ channel: 2 })).toBe(2);
+  });
+
+  it('should configure zones from MPE configuration messages', () => {
+    HuMIDI.setMPEMode({});
+    HuMIDI.setPitchBendRange(24, { channel: 14 });
+
+    // RPN 6 on the upper manager channel with 5 member channels
+    HuMIDI.dispatch([0xbf, 101, 0]);
+    HuMIDI.dispatch([0xbf, 100, 6]);
+    HuMIDI.dispatch([0xbf, 6, 5]);
+
+    expect(HuMIDI.getMPEZones()).toEqual([
+      { type: 'upper', managerChannel: 15, memberChannels: [14, 13, 12, 11, 10] },
+    ]);
+    // the configuration resets the zone's pitch bend ranges
+    expect(HuMIDI.getPitchBendRange({ channel: 14 })).toBe(48);
+
+    HuMIDI.dispatch([0xbf, 6, 0]);
+    expect(HuMIDI.getMPEZones()).toEqual([]);
+    expect(HuMIDI.isMPEEnabled()).toBe(true);
+  });
+
+  it('should ignore MPE configuration messages when MPE mode is off', () => {
+    HuMIDI.dispatch([0xb0, 101, 0]);
+    HuMIDI.dispatch([0xb0, 100, 6]);
+    HuMIDI.dispatch([0xb0, 6, 15]);
+
+    expect(HuMIDI.isMPEEnabled()).toBe(false);
+    expect(HuMIDI.getMPEZones()).toEqual([]);
+  });
+
+  it('should leave notes pressed before MPE mode was turned on alone', () => {
+    const handler = vi.fn();
+    HuMIDI.on('noteexpression', handler);
+    HuMIDI.dispatch([0x91, 60, 100]);
+    HuMIDI.setMPEMode({ lower: 15 });
+
+    HuMIDI.dispatch([0xd1, 127]);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should turn MPE mode off on reset', () => {
+    HuMIDI.setMPEMode({ lower: 15 });
+    HuMIDI.reset();
+
+    expect(HuMIDI.isMPEEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import HuMIDI, { createHuMIDI } from '@/humidi';
+import { Player, PlayerState } from '@/player';
+import { parseMIDIFile } from '@/midiFile';
+import { writeMIDIFile } from '@/midiFileWriter';
+
+
+const message = (timestamp: number, ...raw: number[]) => ({ timestamp, raw });
+
+const sequence = [
+  message(0, 0x90, 60, 100),
+  message(500, 0x80, 60, 0),
+  message(500, 0x90, 64, 100),
+  message(1000, 0x80, 64, 0),
+];
+
+
+describe('Player', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance'] });
+    HuMIDI.reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should emit messages on the event bus when they are due', () => {
+    const noteOnHandler = vi.fn();
+    const noteOffHandler = vi.fn();
+    HuMIDI.on('noteon', noteOnHandler);
+    HuMIDI.on('noteoff', noteOffHandler);
+    const start = performance.now();
+
+    const player = new Player(sequence);
+    player.play();
+    expect(noteOnHandler).toHaveBeenCalledTimes(1);
+    expect(noteOnHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, input: null, timestamp: start }));
+
+    vi.advanceTimersByTime(499);
+    expect(noteOffHandler).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60, timestamp: start + 500 }));
+    expect(noteOnHandler).toHaveBeenLastCalledWith(expect.objectContaining({ note: 64 }));
+    expect(HuMIDI.isNoteActive(64)).toBe(true);
+  });
+
+  it('should finish at the end of the sequence', () => {
+    const onEnd = vi.fn();
+    const player = new Player(sequence, { onEnd });
+    player.play();
+
+    vi.advanceTimersByTime(1100);
+
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(player.getState()).toBe(PlayerState.STOPPED);
+    expect(player.getPosition()).toBe(0);
+    expect(HuMIDI.getActiveNotes()).toEqual([]);
+  });
+
+  it('should play the events at the very end of the sequence', () => {
+    const onEnd = vi.fn();
+    const controlHandler = vi.fn();
+    HuMIDI.on('controlchange', controlHandler);
+    const player = new Player([
+      message(0, 0xc0, 5),
+      message(0, 0x90, 60, 100),
+      message(50, 0x80, 60, 0),
+      message(100, 0xb0, 7, 90),
+    ], { onEnd });
+    player.play();
+
+    vi.advanceTimersByTime(200);
+
+    expect(controlHandler).toHaveBeenCalledWith(expect.objectContaining({ controller: 7, value: 90 }));
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should turn off sounding notes and pedals when paused', () => {
+    const noteOffHandler = vi.fn();
+    HuMIDI.on('noteoff', noteOffHandler);
+    const player = new Player([message(0, 0xb0, 64, 127), ...sequence]);
+    player.play();
+
+    vi.advanceTimersByTime(200);
+    player.pause();
+
+    expect(player.getState()).toBe(PlayerState.PAUSED);
+    expect(player.getPosition()).toBe(200);
+    expect(HuMIDI.isSustainOn(0)).toBe(false);
+    expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60 }));
+    expect(HuMIDI.getSoundingNotes()).toEqual([]);
+
+    // Resumes from the paused position
+    player.play();
+    vi.advanceTimersByTime(300);
+    expect(HuMIDI.isNoteActive(64)).toBe(true);
+  });
+
+  it('should not emit messages scheduled ahead when stopped', () => {
+    const noteOnHandler = vi.fn();
+    HuMIDI.on('noteon', noteOnHandler);
+    const player = new Player(sequence);
+    player.play();
+
+    vi.advanceTimersByTime(450); // the second note is scheduled but not due
+    player.stop();
+    vi.advanceTimersByTime(1000);
+
+    expect(noteOnHandler).toHaveBeenCalledTimes(1);
+    expect(HuMIDI.getActiveNotes()).toEqual([]);
+  });
+
+  it('should seek, scale tempo and loop', () => {
+    const noteOnHandler = vi.fn();
+    HuMIDI.on('noteon', noteOnHandler);
+    const player = new Player(sequence, { tempo: 2, loop: { start: 0, end: 1000 } });
+
+    player.seek(500);
+    player.play();
+    expect(noteOnHandler).toHaveBeenLastCalledWith(expect.objectContaining({ note: 64 }));
+
+    // 500ms of sequence time takes 250ms at double speed, then the loop restarts
+    vi.advanceTimersByTime(250);
+    expect(noteOnHandler).toHaveBeenLastCalledWith(expect.objectContaining({ note: 60 }));
+    expect(HuMIDI.getActiveNotes().map(note => note.note)).toEqual([60]);
+
+    player.setTempo(1);
+    vi.advanceTimersByTime(500);
+    expect(noteOnHandler).toHaveBeenLastCalledWith(expect.objectContaining({ note: 64 }));
+    expect(noteOnHandler).toHaveBeenCalledTimes(3);
+    player.stop();
+  });
+
+  it('should keep time when the scheduler is throttled', () => {
+    const noteOnHandler = vi.fn();
+    HuMIDI.on('noteon', noteOnHandler);
+    const start = performance.now();
+    const player = new Player(sequence, { interval: 1000 });
+
+    player.play();
+    vi.advanceTimersByTime(1000);
+
+    expect(noteOnHandler).toHaveBeenLastCalledWith(expect.objectContaining({ note: 64, timestamp: start + 500 }));
+  });
+
+  it('should send messages ahead of time to an output', () => {
+    const output = { send: vi.fn() };
+    const start = performance.now();
+    const player = new Player(sequence, { output, lookahead: 600 });
+
+    player.play();
+    expect(output.send).toHaveBeenCalledWith([0x90, 60, 100], start);
+    expect(output.send).toHaveBeenCalledWith([0x90, 64, 100], start + 500);
+
+    player.stop();
+    expect(output.send).toHaveBeenLastCalledWith([0x80, 64, 0], start + 500);
+  });
+
+  it('should play parsed MIDI files on a given instance', () => {
+    const instance = createHuMIDI();
+    const noteOnHandler = vi.fn();
+    instance.on('noteon', noteOnHandler);
+    const file = parseMIDIFile(writeMIDIFile(sequence));
+
+    const player = new Player(file, { target: instance });
+    expect(player.getDuration()).toBe(1000);
+    player.play();
+    vi.advanceTimersByTime(600);
+
+    expect(noteOnHandler).toHaveBeenCalledTimes(2);
+    player.stop();
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import HuMIDI, { createHuMIDI } from '@/humidi';
+import { Recorder, RecorderState } from '@/recorder';
+import { VirtualMIDIBackend } from '@/virtualBackend';
+
+import type { VirtualMIDIInput } from '@/virtualBackend';
+
+
+describe('Recorder', () => {
+  let keys: VirtualMIDIInput;
+  let pads: VirtualMIDIInput;
+  let now: number;
+
+  const setTime = (time: number) => {
+    now = time;
+  };
+
+  beforeEach(async () => {
+    HuMIDI.reset();
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+    const backend = new VirtualMIDIBackend();
+    keys = backend.createInput({ id: 'keys' });
+    pads = backend.createInput({ id: 'pads' });
+    await HuMIDI.requestAccess({ backend });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record every incoming message with take relative timestamps', () => {
+    const recorder = new Recorder();
+    recorder.start();
+
+    keys.noteOn(60, 100, 0, 1100);
+    keys.controlChange(64, 127, 0, 1200);
+    keys.send([0xf8], 1250);
+    keys.noteOff(60, 0, 0, 1300);
+    setTime(1500);
+
+    const take = recorder.stop();
+
+    expect(recorder.getState()).toBe(RecorderState.IDLE);
+    expect(take).toEqual({
+      id: 1,
+      startTime: 1000,
+      duration: 500,
+      events: [
+        { timestamp: 100, channel: 0, inputId: 'keys', raw: new Uint8Array([0x90, 60, 100]) },
+        { timestamp: 200, channel: 0, inputId: 'keys', raw: new Uint8Array([0xb0, 64, 127]) },
+        { timestamp: 250, channel: -1, inputId: 'keys', raw: new Uint8Array([0xf8]) },
+        { timestamp: 300, channel: 0, inputId: 'keys', raw: new Uint8Array([0x80, 60, 0]) },
+        // the pedal is still down when stopping
+        { timestamp: 500, channel: 0, inputId: 'keys', raw: new Uint8Array([0xb0, 64, 0]) },
+      ],
+    });
+  });
+
+  it('should only record the selected inputs and channels', () => {
+    const recorder = new Recorder({ inputs: ['keys'], channels: [1] });
+    recorder.start();
+
+    keys.noteOn(60, 100, 0, 1100);
+    keys.noteOn(62, 100, 1, 1100);
+    pads.noteOn(36, 100, 1, 1100);
+    keys.noteOff(62, 0, 1, 1200);
+
+    expect(recorder.stop()?.events.map(event => event.raw[1])).toEqual([62, 62]);
+  });
+
+  it('should close hanging notes when stopping', () => {
+    const recorder = new Recorder();
+    keys.noteOn(48, 100, 0, 900); // held before recording started
+
+    recorder.start();
+    keys.noteOn(60, 100, 2, 1100);
+    setTime(1400);
+
+    expect(recorder.stop()?.events).toEqual([
+      expect.objectContaining({ raw: new Uint8Array([0x92, 60, 100]) }),
+      { timestamp: 400, channel: 2, inputId: 'keys', raw: new Uint8Array([0x82, 60, 0]) },
+    ]);
+  });
+
+  it('should release sustain pedals still down when capturing stops', () => {
+    const recorder = new Recorder();
+    recorder.start();
+
+    keys.controlChange(64, 127, 0, 1100);
+    pads.controlChange(64, 127, 3, 1100);
+    pads.controlChange(64, 0, 3, 1150);
+    keys.noteOn(60, 100, 0, 1200);
+    keys.noteOff(60, 0, 0, 1300);
+    setTime(1400);
+    recorder.punchOut();
+    setTime(1500);
+
+    const take = recorder.stop();
+    expect(take?.events.slice(-1)).toEqual([
+      { timestamp: 400, channel: 0, inputId: 'keys', raw: new Uint8Array([0xb0, 64, 0]) },
+    ]);
+    expect(take?.events).toHaveLength(6);
+  });
+
+  it('should leave paused time out of the take', () => {
+    const recorder = new Recorder();
+    recorder.start();
+
+    keys.noteOn(60, 100, 0, 1100);
+    setTime(1200);
+    recorder.pause();
+    expect(recorder.getState()).toBe(RecorderState.PAUSED);
+
+    keys.noteOff(60, 0, 0, 1300);
+    keys.noteOn(62, 100, 0, 1400);
+    setTime(2200);
+    recorder.resume();
+    keys.noteOn(64, 100, 0, 2300);
+    keys.noteOff(64, 0, 0, 2400);
+    setTime(2500);
+
+    const take = recorder.stop();
+    expect(take?.duration).toBe(500);
+    expect(take?.events.map(event => [event.timestamp, ...event.raw])).toEqual([
+      [100, 0x90, 60, 100],
+      [200, 0x80, 60, 0], // closed when pausing
+      [300, 0x90, 64, 100],
+      [400, 0x80, 64, 0],
+    ]);
+  });
+
+  it('should keep the take running while punched out', () => {
+    const recorder = new Recorder();
+    recorder.start();
+    recorder.punchOut();
+    expect(recorder.isCapturing()).toBe(false);
+
+    keys.noteOn(60, 100, 0, 1100);
+    setTime(1200);
+    recorder.punchIn();
+    keys.noteOn(62, 100, 0, 1300);
+    setTime(1400);
+    recorder.punchOut();
+    keys.noteOn(64, 100, 0, 1500);
+    setTime(1600);
+
+    const take = recorder.stop();
+    expect(take?.duration).toBe(600);
+    expect(take?.events.map(event => [event.timestamp, ...event.raw])).toEqual([
+      [300, 0x90, 62, 100],
+      [400, 0x80, 62, 0],
+    ]);
+  });
+
+  it('should keep multiple takes and export them', () => {
+    const recorder = new Recorder();
+    recorder.start();
+    keys.noteOn(60, 100, 0, 1100);
+    keys.noteOff(60, 0, 0, 1200);
+    recorder.stop();
+
+    recorder.start();
+    keys.noteOn(62, 90, 0, 1100);
+    keys.noteOff(62, 0, 0, 1200);
+    recorder.stop();
+
+    expect(recorder.getTakes().map(take => take.id)).toEqual([1, 2]);
+    expect(recorder.exportEvents(1)[0].raw).toEqual(new Uint8Array([0x90, 60, 100]));
+    expect(JSON.parse(recorder.exportJSON()!)).toEqual({
+      id: 2,
+      startTime: 1000,
+      duration: 0,
+      events: [
+        { timestamp: 100, channel: 0, inputId: 'keys', raw: [0x90, 62, 90] },
+        { timestamp: 200, channel: 0, inputId: 'keys', raw: [0x80, 62, 0] },
+      ],
+    });
+
+    recorder.deleteTake(2);
+    expect(recorder.exportJSON(2)).toBeNull();
+    recorder.clear();
+    expect(recorder.exportEvents()).toEqual([]);
+  });
+
+  it('should record from a given HuMIDI instance', async () => {
+    const instance = createHuMIDI();
+    await instance.requestAccess();
+    instance.setEnabled(false);
+
+    const recorder = new Recorder({ source: instance });
+    recorder.start();
+    keys.noteOn(60, 100, 0, 1100);
+
+    expect(recorder.stop()?.events).toEqual([]);
+    instance.reset();
+  });
+});
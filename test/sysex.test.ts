@@ -0,0 +1,73 @@
+import {
+  describe,
+  it,
+  expect,
+} from 'vitest';
+import {
+  createIdentityRequest,
+  createSysEx,
+  parseIdentityReply,
+  parseSysEx,
+} from '@/sysex';
+
+
+describe('sysex', () => {
+  describe('parseSysEx', () => {
+    it('should parse single byte manufacturer ids', () => {
+      expect(parseSysEx([0xf0, 0x43, 0x12, 0x00, 0xf7])).toEqual({
+        manufacturerId: [0x43],
+        data: new Uint8Array([0x12, 0x00]),
+      });
+    });
+
+    it('should parse three byte manufacturer ids', () => {
+      expect(parseSysEx([0xf0, 0x00, 0x21, 0x1d, 0x7f, 0xf7])).toEqual({
+        manufacturerId: [0x00, 0x21, 0x1d],
+        data: new Uint8Array([0x7f]),
+      });
+    });
+
+    it('should reject messages that are not sysex', () => {
+      expect(parseSysEx([0x90, 0x3c, 0x64])).toBeNull();
+      expect(parseSysEx([0xf0, 0xf7])).toBeNull();
+      expect(parseSysEx([0xf0, 0x00, 0x21, 0xf7])).toBeNull();
+    });
+  });
+
+  describe('createSysEx', () => {
+    it('should frame manufacturer id and payload', () => {
+      expect(createSysEx([0x41], [0x10, 0x42])).toEqual([0xf0, 0x41, 0x10, 0x42, 0xf7]);
+    });
+  });
+
+  describe('identity', () => {
+    it('should build identity requests for all devices by default', () => {
+      expect(createIdentityRequest()).toEqual([0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7]);
+      expect(createIdentityRequest(0x10)).toEqual([0xf0, 0x7e, 0x10, 0x06, 0x01, 0xf7]);
+    });
+
+    it('should parse identity replies with extended manufacturer ids', () => {
+      const reply = parseIdentityReply([
+        0xf0, 0x7e, 0x00, 0x06, 0x02,
+        0x00, 0x20, 0x6b,
+        0x04, 0x00,
+        0x02, 0x01,
+        0x01, 0x02, 0x03, 0x04,
+        0xf7,
+      ]);
+
+      expect(reply).toEqual({
+        deviceId: 0x00,
+        manufacturerId: [0x00, 0x20, 0x6b],
+        family: 4,
+        familyMember: 130,
+        version: [1, 2, 3, 4],
+      });
+    });
+
+    it('should ignore other universal messages', () => {
+      expect(parseIdentityReply(createIdentityRequest())).toBeNull();
+      expect(parseIdentityReply([0xf0, 0x41, 0x06, 0x02, 0xf7])).toBeNull();
+    });
+  });
+});
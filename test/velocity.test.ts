@@ -0,0 +1,171 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+} from 'vitest';
+import HuMIDI from '@/humidi';
+import { WaitForTimeoutError } from '@/eventStream';
+import { applyVelocityCurve } from '@/velocity';
+import { VelocityCalibration } from '@/velocityCalibration';
+import { VirtualMIDIBackend } from '@/virtualBackend';
+
+import type { VelocityCurve } from '@/velocity';
+
+
+describe('velocity curves', () => {
+  it('should leave velocities unchanged with a default linear curve', () => {
+    const curve: VelocityCurve = { type: 'linear' };
+
+    expect([1, 64, 127].map(velocity => applyVelocityCurve(curve, velocity))).toEqual([1, 64, 127]);
+  });
+
+  it('should stretch the playable range of a linear curve', () => {
+    const curve: VelocityCurve = { type: 'linear', min: 20, max: 100 };
+
+    expect(applyVelocityCurve(curve, 10)).toBe(1);
+    expect(applyVelocityCurve(curve, 60)).toBe(64);
+    expect(applyVelocityCurve(curve, 110)).toBe(127);
+  });
+
+  it('should shape velocities with exponential and logarithmic curves', () => {
+    expect(applyVelocityCurve({ type: 'exponential' }, 64)).toBe(33);
+    expect(applyVelocityCurve({ type: 'exponential', exponent: 0.5 }, 64)).toBe(90);
+    expect(applyVelocityCurve({ type: 'logarithmic' }, 64)).toBe(94);
+    expect(applyVelocityCurve({ type: 'logarithmic' }, 127)).toBe(127);
+  });
+
+  it('should map to a fixed velocity or through a lookup table', () => {
+    expect(applyVelocityCurve({ type: 'fixed', velocity: 100 }, 12)).toBe(100);
+
+    const table = Array.from({ length: 128 }, (_, velocity) => 127 - velocity);
+    expect(applyVelocityCurve({ type: 'lookup', table }, 27)).toBe(100);
+    expect(applyVelocityCurve({ type: 'lookup', table: [0, 10, 20] }, 90)).toBe(20);
+  });
+});
+
+describe('velocity curve settings', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+  });
+
+  it('should report the velocity unchanged when no curve is set', () => {
+    const handler = vi.fn();
+    HuMIDI.on('noteon', handler);
+
+    HuMIDI.dispatch([0x90, 60, 50]);
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ velocity: 50, mappedVelocity: 50 }));
+  });
+
+  it('should apply the global curve, overridden per input', async () => {
+    const backend = new VirtualMIDIBackend();
+    const keys = backend.createInput({ id: 'keys' });
+    const pads = backend.createInput({ id: 'pads' });
+    await HuMIDI.requestAccess({ backend });
+
+    const handler = vi.fn();
+    HuMIDI.on('noteon', handler);
+    HuMIDI.setVelocityCurve({ type: 'fixed', velocity: 90 });
+    HuMIDI.getInputs().find(input => input.id === 'pads')?.setVelocityCurve({ type: 'fixed', velocity: 127 });
+
+    keys.noteOn(60, 50);
+    pads.noteOn(36, 50);
+
+    expect(HuMIDI.getVelocityCurve()).toEqual({ type: 'fixed', velocity: 90 });
+    expect(handler.mock.calls.map(([event]) => event.mappedVelocity)).toEqual([90, 127]);
+    expect(HuMIDI.getActiveNotes({ deviceId: 'keys' })[0].velocity).toBe(50);
+  });
+});
+
+describe('VelocityCalibration', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+  });
+
+  const strike = (...velocities: number[]) => {
+    velocities.forEach(velocity => HuMIDI.dispatch([0x90, 60, velocity]));
+  };
+
+  it('should fit a linear curve to soft and hard strikes', async () => {
+    const calibration = new VelocityCalibration();
+
+    const soft = calibration.record('soft', 3);
+    strike(18, 20, 22);
+    expect(await soft).toEqual([18, 20, 22]);
+
+    const hard = calibration.record('hard', 3);
+    strike(98, 100, 102, 127);
+    expect(await hard).toEqual([98, 100, 102]);
+
+    const curve = calibration.fit();
+    expect(curve).toEqual({ type: 'linear', min: 20, max: 100 });
+    expect(applyVelocityCurve(curve, 100)).toBe(127);
+  });
+
+  it('should fit an exponential curve that maps medium strikes to the middle', async () => {
+    const calibration = new VelocityCalibration();
+
+    const soft = calibration.record('soft', 1);
+    strike(10);
+    await soft;
+    const medium = calibration.record('medium', 1);
+    strike(80);
+    await medium;
+    const hard = calibration.record('hard', 1);
+    strike(110);
+    await hard;
+
+    const curve = calibration.fit();
+    expect(curve.type).toBe('exponential');
+    expect(applyVelocityCurve(curve, 80)).toBe(64);
+  });
+
+  it('should only record strikes from the calibrated input', async () => {
+    const backend = new VirtualMIDIBackend();
+    const keys = backend.createInput({ id: 'keys' });
+    const pads = backend.createInput({ id: 'pads' });
+    await HuMIDI.requestAccess({ backend });
+
+    const calibration = new VelocityCalibration({ inputId: 'keys' });
+    const soft = calibration.record('soft', 1);
+    pads.noteOn(60, 5);
+    keys.noteOn(60, 30);
+
+    expect(await soft).toEqual([30]);
+  });
+
+  it('should stop recording when no strikes arrive in time', async () => {
+    vi.useFakeTimers();
+    try {
+      const source = { on: vi.fn(), off: vi.fn() };
+      const calibration = new VelocityCalibration({ source });
+
+      const soft = calibration.record('soft', 3, { timeout: 1000 });
+      vi.advanceTimersByTime(1000);
+
+      await expect(soft).rejects.toBeInstanceOf(WaitForTimeoutError);
+      expect(source.off).toHaveBeenCalledWith('noteon', source.on.mock.calls[0][1]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should stop recording when the signal aborts', async () => {
+    const source = { on: vi.fn(), off: vi.fn() };
+    const calibration = new VelocityCalibration({ source });
+    const controller = new AbortController();
+
+    const soft = calibration.record('soft', 3, { signal: controller.signal });
+    controller.abort(new Error('Calibration cancelled'));
+
+    await expect(soft).rejects.toThrow('Calibration cancelled');
+    expect(source.off).toHaveBeenCalledWith('noteon', source.on.mock.calls[0][1]);
+    await expect(calibration.record('hard', 3, { signal: controller.signal })).rejects.toThrow('Calibration cancelled');
+  });
+
+  it('should require soft and hard strikes before fitting', () => {
+    expect(() => new VelocityCalibration().fit()).toThrow('Soft and hard strikes');
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+} from 'vitest';
+import HuMIDI, { AccessStatus } from '@/humidi';
+import { VirtualMIDIBackend } from '@/virtualBackend';
+
+
+describe('VirtualMIDIBackend', () => {
+  let backend: VirtualMIDIBackend;
+
+  beforeEach(() => {
+    navigator.requestMIDIAccess = vi.fn();
+    HuMIDI.reset();
+    backend = new VirtualMIDIBackend();
+  });
+
+  it('should provide access without the Web MIDI API', async () => {
+    backend.createInput({ id: 'keys', name: 'Virtual Keys' });
+    backend.createOutput({ id: 'synth', name: 'Virtual Synth' });
+
+    await HuMIDI.requestAccess({ backend });
+
+    expect(navigator.requestMIDIAccess).not.toHaveBeenCalled();
+    expect(HuMIDI.getAccessStatus()).toBe(AccessStatus.ACCEPTED);
+    expect(await HuMIDI.hasPermissions()).toBe(true);
+    expect(HuMIDI.getInputs()).toEqual([
+      expect.objectContaining({ id: 'keys', name: 'Virtual Keys', state: 'connected' }),
+    ]);
+    expect(HuMIDI.getOutputs()).toEqual([
+      expect.objectContaining({ id: 'synth', name: 'Virtual Synth' }),
+    ]);
+  });
+
+  it('should deny access when configured to', async () => {
+    backend = new VirtualMIDIBackend({ granted: false });
+
+    await expect(HuMIDI.requestAccess({ backend })).rejects.toThrow('MIDI permissions denied');
+    expect(HuMIDI.getAccessStatus()).toBe(AccessStatus.DENIED);
+  });
+
+  it('should deliver messages emitted by virtual inputs', async () => {
+    const input = backend.createInput({ id: 'keys' });
+    await HuMIDI.requestAccess({ backend });
+
+    const noteOnHandler = vi.fn();
+    const pitchBendHandler = vi.fn();
+    HuMIDI.on('noteon', noteOnHandler);
+    HuMIDI.on('pitchbend', pitchBendHandler);
+
+    input.noteOn(60, 100, 2, 1000);
+    input.pitchBend(0.5);
+
+    expect(noteOnHandler).toHaveBeenCalledWith(expect.objectContaining({
+      note: 60,
+      velocity: 100,
+      channel: 2,
+      timestamp: 1000,
+      raw: new Uint8Array([146, 60, 100]),
+    }));
+    expect(pitchBendHandler).toHaveBeenCalledWith(expect.objectContaining({ value: 0.5 }));
+    expect(HuMIDI.getActiveNotes()[0].deviceId).toBe('keys');
+  });
+
+  it('should announce devices connected after access was granted', async () => {
+    await HuMIDI.requestAccess({ backend });
+
+    const connectedHandler = vi.fn();
+    const noteOnHandler = vi.fn();
+    HuMIDI.on('inputconnected', connectedHandler);
+    HuMIDI.on('noteon', noteOnHandler);
+
+    const input = backend.createInput({ id: 'late' });
+    input.noteOn(64, 90);
+
+    expect(connectedHandler).toHaveBeenCalledWith({
+      input: expect.objectContaining({ id: 'late' }),
+    });
+    expect(noteOnHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release notes and stop delivering messages when an input disconnects', async () => {
+    const input = backend.createInput({ id: 'keys' });
+    await HuMIDI.requestAccess({ backend });
+
+    const noteOffHandler = vi.fn();
+    const disconnectedHandler = vi.fn();
+    HuMIDI.on('noteoff', noteOffHandler);
+    HuMIDI.on('inputdisconnected', disconnectedHandler);
+
+    input.noteOn(60, 100);
+    input.disconnect();
+    input.noteOn(62, 100);
+
+    expect(noteOffHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 60 }));
+    expect(disconnectedHandler).toHaveBeenCalledTimes(1);
+    expect(HuMIDI.getActiveNotes()).toEqual([]);
+    expect(HuMIDI.getInputs()[0].state).toBe('disconnected');
+
+    input.connect();
+    input.noteOn(62, 100);
+    expect(HuMIDI.isNoteActive(62)).toBe(true);
+  });
+
+  it('should record messages sent to virtual outputs', async () => {
+    const output = backend.createOutput({ id: 'synth' });
+    await HuMIDI.requestAccess({ backend });
+    const onMessage = vi.fn();
+    output.onmessage = onMessage;
+
+    const midiOutput = HuMIDI.getOutputs()[0];
+    midiOutput.noteOn(60, 100, 1);
+    midiOutput.controlChange(7, 90, 0, 500);
+
+    expect(output.messages).toEqual([
+      { data: new Uint8Array([145, 60, 100]) },
+      { data: new Uint8Array([176, 7, 90]), timestamp: 500 },
+    ]);
+    expect(onMessage).toHaveBeenCalledTimes(2);
+
+    output.clear();
+    expect(output.messages).toEqual([]);
+  });
+
+  it('should emit output disconnection and reject sends to disconnected outputs', async () => {
+    const output = backend.createOutput({ id: 'synth' });
+    await HuMIDI.requestAccess({ backend });
+
+    const disconnectedHandler = vi.fn();
+    HuMIDI.on('outputdisconnected', disconnectedHandler);
+    output.disconnect();
+
+    expect(disconnectedHandler).toHaveBeenCalledWith({
+      output: expect.objectContaining({ id: 'synth' }),
+    });
+    expect(() => output.send([144, 60, 100])).toThrow('disconnected');
+    expect(HuMIDI.getOutputs()[0].state).toBe('disconnected');
+
+    output.connect();
+    expect(HuMIDI.getOutputs()[0].state).toBe('connected');
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+} from 'vitest';
+import HuMIDI from '@/humidi';
+import { findZones } from '@/zones';
+import { VirtualMIDIBackend } from '@/virtualBackend';
+
+import type { Zone } from '@/zones';
+
+
+const splitZones: Zone[] = [
+  { name: 'left', high: 59 },
+  { name: 'right', low: 60 },
+];
+
+describe('findZones', () => {
+  const playedNote = { note: 60, velocity: 100, channel: 0, inputId: 'piano' };
+
+  it('should match zones by note range', () => {
+    expect(findZones(splitZones, playedNote).map(zone => zone.name)).toEqual(['right']);
+    expect(findZones(splitZones, { ...playedNote, note: 59 }).map(zone => zone.name)).toEqual(['left']);
+  });
+
+  it('should match zones by input, channel and velocity', () => {
+    const zones: Zone[] = [
+      { name: 'piano', inputId: 'piano' },
+      { name: 'drums', channel: 9 },
+      { name: 'soft', maxVelocity: 63 },
+      { name: 'loud', minVelocity: 64 },
+    ];
+
+    expect(findZones(zones, playedNote).map(zone => zone.name)).toEqual(['piano', 'loud']);
+    expect(findZones(zones, { ...playedNote, channel: 9, velocity: 20, inputId: null }).map(zone => zone.name))
+      .toEqual(['drums', 'soft']);
+  });
+
+  it('should leave out zones that transpose the note out of range', () => {
+    const zones: Zone[] = [{ name: 'up', transpose: 12 }];
+
+    expect(findZones(zones, { ...playedNote, note: 120 })).toEqual([]);
+    expect(findZones(zones, { ...playedNote, note: 115 })).toHaveLength(1);
+  });
+});
+
+describe('zones', () => {
+  beforeEach(() => {
+    HuMIDI.reset();
+    HuMIDI.setZones(splitZones);
+  });
+
+  it('should tag note events with their zones', () => {
+    const noteOnHandler = vi.fn();
+    const noteOffHandler = vi.fn();
+    HuMIDI.on('noteon', noteOnHandler);
+    HuMIDI.on('noteoff', noteOffHandler);
+
+    HuMIDI.dispatch([0x90, 48, 100]);
+    HuMIDI.dispatch([0x80, 48, 0]);
+    HuMIDI.dispatch([0x80, 72, 0]);
+
+    expect(noteOnHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 48, zones: ['left'] }));
+    expect(noteOffHandler).toHaveBeenNthCalledWith(1, expect.objectContaining({ note: 48, zones: ['left'] }));
+    // never pressed, so it was never in a zone
+    expect(noteOffHandler).toHaveBeenNthCalledWith(2, expect.objectContaining({ note: 72, zones: [] }));
+  });
+
+  it('should only call zone handlers for notes in the zone', () => {
+    const leftHandler = vi.fn();
+    const rightHandler = vi.fn();
+    HuMIDI.on('noteon', leftHandler, { zone: 'left' });
+    HuMIDI.on('noteon', rightHandler, { zone: 'right' });
+
+    HuMIDI.dispatch([0x90, 48, 100]);
+    HuMIDI.dispatch([0x90, 64, 100]);
+
+    expect(leftHandler).toHaveBeenCalledTimes(1);
+    expect(leftHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 48 }));
+    expect(rightHandler).toHaveBeenCalledTimes(1);
+    expect(rightHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 64 }));
+  });
+
+  it('should call handlers of every layered zone with transposed notes', () => {
+    HuMIDI.setZones([...splitZones, { name: 'bass', high: 59, transpose: -12 }]);
+    const leftHandler = vi.fn();
+    const bassHandler = vi.fn();
+    const handler = vi.fn();
+    HuMIDI.on('noteon', leftHandler, { zone: 'left' });
+    HuMIDI.on('noteon', bassHandler, { zone: 'bass' });
+    HuMIDI.on('noteon', handler);
+
+    HuMIDI.dispatch([0x90, 48, 100]);
+
+    expect(leftHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 48, zones: ['left', 'bass'] }));
+    expect(bassHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 36, zones: ['left', 'bass'] }));
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ note: 48 }));
+  });
+
+  it('should route note offs to the zones of their note on after zones change', () => {
+    const leftHandler = vi.fn();
+    const rightHandler = vi.fn();
+    HuMIDI.on('noteoff', leftHandler, { zone: 'left' });
+    HuMIDI.on('noteoff', rightHandler, { zone: 'right' });
+
+    HuMIDI.dispatch([0x90, 55, 100]);
+    HuMIDI.setZones([{ name: 'left', high: 47 }, { name: 'right', low: 48 }]);
+    HuMIDI.dispatch([0x80, 55, 0]);
+
+    expect(leftHandler).toHaveBeenCalledWith(expect.objectContaining({ note: 55, zones: ['left'] }));
+    expect(rightHandler).not.toHaveBeenCalled();
+  });
+
+  it('should keep the transposition of held notes when zones change', () => {
+    HuMIDI.setZones([{ name: 'lead', transpose: 12 }]);
+    const handler = vi.fn();
+    HuMIDI.on('noteoff', handler, { zone: 'lead' });
+
+    HuMIDI.dispatch([0x90, 60, 100]);
+    HuMIDI.setZones([{ name: 'lead', transpose: 24 }]);
+    HuMIDI.dispatch([0x80, 60, 0]);
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ note: 72 }));
+  });
+
+  it('should route sustained and panicked note offs to their zones', () => {
+    const handler = vi.fn();
+    HuMIDI.on('noteoff', handler, { zone: 'right' });
+
+    HuMIDI.dispatch([0x90, 60, 100]);
+    HuMIDI.dispatch([0xb0, 64, 127]);
+    HuMIDI.dispatch([0x80, 60, 0]);
+    HuMIDI.dispatch([0xb0, 64, 0]);
+    HuMIDI.dispatch([0x90, 62, 100]);
+    HuMIDI.panic();
+
+    expect(handler).toHaveBeenNthCalledWith(1, expect.objectContaining({ note: 60, sustained: true, zones: ['right'] }));
+    expect(handler).toHaveBeenNthCalledWith(2, expect.objectContaining({ note: 62, zones: ['right'] }));
+  });
+
+  it('should match zones by input', async () => {
+    const backend = new VirtualMIDIBackend();
+    const piano = backend.createInput({ id: 'piano' });
+    backend.createInput({ id: 'pads' });
+    await HuMIDI.requestAccess({ backend });
+    HuMIDI.setZones([{ name: 'piano', inputId: 'piano' }]);
+    const handler = vi.fn();
+    HuMIDI.on('noteon', handler, { zone: 'piano' });
+
+    piano.noteOn(60, 100);
+    HuMIDI.dispatch([0x90, 62, 100]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ note: 60 }));
+  });
+
+  it('should match velocity ranges against mapped velocities', () => {
+    HuMIDI.setZones([{ name: 'loud', minVelocity: 100 }]);
+    HuMIDI.setVelocityCurve({ type: 'fixed', velocity: 110 });
+    const handler = vi.fn();
+    HuMIDI.on('noteon', handler, { zone: 'loud' });
+
+    HuMIDI.dispatch([0x90, 60, 30]);
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ velocity: 30, mappedVelocity: 110 }));
+  });
+
+  it('should remove zone handlers with off', () => {
+    const handler = vi.fn();
+    HuMIDI.on('noteon', handler, { zone: 'left' });
+    HuMIDI.off('noteon', handler, { zone: 'left' });
+
+    HuMIDI.dispatch([0x90, 48, 100]);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should copy zone definitions', () => {
+    const zones: Zone[] = [{ name: 'left', high: 59 }];
+    HuMIDI.setZones(zones);
+    zones[0].high = 10;
+    HuMIDI.getZones()[0].high = 20;
+
+    expect(HuMIDI.getZones()).toEqual([{ name: 'left', high: 59 }]);
+  });
+
+  it('should clear zones and zone handlers on reset', () => {
+    const handler = vi.fn();
+    HuMIDI.on('noteon', handler, { zone: 'left' });
+
+    HuMIDI.reset();
+    HuMIDI.setZones(splitZones);
+    HuMIDI.dispatch([0x90, 48, 100]);
+
+    expect(handler).not.toHaveBeenCalled();
+    HuMIDI.reset();
+    expect(HuMIDI.getZones()).toEqual([]);
+  });
+});